@@ -0,0 +1,208 @@
+/**
+ * Availability Consistency Checker
+ *
+ * To run: npx tsx scripts/check-availability.ts [options]   (--help lists them)
+ *
+ * Rebuilds every date's seats from the times and appointments collections, on the shared schedule
+ * and each provider's, and reports every difference. --fix writes the repairable ones back,
+ * one transaction per date. Exits with 1 while anything is still wrong, so it can run in CI.
+ */
+
+/// <reference types="node" />
+
+import { parseArgs } from 'node:util';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  where
+} from 'firebase/firestore';
+import type { Appointment, DateDoc, TimeDoc } from '../src/app/services/appointments.service';
+import { DateCheck, checkDateAvailability, isRepairable } from '../src/app/utils/availability-check';
+import { TARGET_USAGE, connect, parseTarget } from './firestore-target';
+
+const USAGE = `Usage: npx tsx scripts/check-availability.ts [options]
+
+  --from=YYYY-MM-DD        first date to check (default: the earliest)
+  --to=YYYY-MM-DD          last date to check, inclusive (default: the latest)
+  --fix                    write the repairable discrepancies back, one transaction per date
+  --target=TARGET          emulator or project (default: emulator)
+  --help                   show this message
+
+${TARGET_USAGE}`;
+
+// Same paths as getDatePath in providers.service.ts
+function getDatesPath(providerId?: string): string {
+  return providerId ? `providers/${providerId}/dates` : 'dates';
+}
+
+function parseOptions() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      fix: { type: 'boolean', default: false },
+      target: { type: 'string', default: 'emulator' },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  for (const dateId of [values.from, values.to]) {
+    if (dateId !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(dateId)) {
+      throw new Error(`Dates must be in YYYY-MM-DD format: ${dateId}`);
+    }
+  }
+
+  return {
+    fromDateId: values.from,
+    toDateId: values.to,
+    fix: values.fix,
+    target: parseTarget(values.target)
+  };
+}
+
+/**
+ * Limit a query on dateId to the range, when one was given
+ */
+function inRange(fromDateId?: string, toDateId?: string) {
+  return [
+    ...(fromDateId ? [where('dateId', '>=', fromDateId)] : []),
+    ...(toDateId ? [where('dateId', '<=', toDateId)] : [])
+  ];
+}
+
+/**
+ * Every date with something wrong, on every schedule, earliest first
+ */
+async function checkAll(db: Firestore, times: TimeDoc[], fromDateId?: string, toDateId?: string): Promise<{ checked: number; checks: DateCheck[] }> {
+  const [providerSnapshot, appointmentSnapshot] = await Promise.all([
+    getDocs(collection(db, 'providers')),
+    getDocs(query(collection(db, 'appointments'), ...inRange(fromDateId, toDateId)))
+  ]);
+  const appointments = appointmentSnapshot.docs.map(appointmentDoc => appointmentDoc.data() as Appointment);
+
+  // The shared schedule, then every provider's (inactive ones can still have bookings)
+  const schedules = [undefined, ...providerSnapshot.docs.map(providerDoc => providerDoc.id)];
+  let checked = 0;
+  const checks: DateCheck[] = [];
+
+  for (const providerId of schedules) {
+    const dateSnapshot = await getDocs(query(collection(db, getDatesPath(providerId)), ...inRange(fromDateId, toDateId)));
+    const dateDocs = new Map(dateSnapshot.docs.map(dateDoc => [dateDoc.id, dateDoc.data() as DateDoc]));
+    const onSchedule = appointments.filter(apt => apt.providerId === providerId);
+
+    // Appointments can point at a date that no longer exists, so both sides list dates
+    const dateIds = Array.from(new Set([...dateDocs.keys(), ...onSchedule.map(apt => apt.dateId)])).sort();
+    checked += dateIds.length;
+
+    dateIds
+      .map(dateId => checkDateAvailability(
+        dateDocs.get(dateId) ?? null,
+        dateId,
+        onSchedule.filter(apt => apt.dateId === dateId),
+        times,
+        providerId
+      ))
+      .filter(check => check.discrepancies.length > 0)
+      .forEach(check => checks.push(check));
+  }
+
+  return { checked, checks: checks.sort((a, b) => a.dateId.localeCompare(b.dateId)) };
+}
+
+/**
+ * Rewrite one date from its appointments, checking it again inside the transaction
+ * The appointments are queried after the date is read: a booking made in between also writes
+ * the date, so the transaction retries and the query runs again
+ */
+async function repairDate(db: Firestore, times: TimeDoc[], dateId: string, providerId?: string): Promise<DateCheck> {
+  return runTransaction(db, async (transaction) => {
+    const dateRef = doc(db, getDatesPath(providerId), dateId);
+    const dateSnapshot = await transaction.get(dateRef);
+    const appointmentSnapshot = await getDocs(query(collection(db, 'appointments'), where('dateId', '==', dateId)));
+    const appointments = appointmentSnapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .filter(apt => apt.providerId === providerId);
+
+    const check = checkDateAvailability(
+      dateSnapshot.exists() ? dateSnapshot.data() as DateDoc : null,
+      dateId,
+      appointments,
+      times,
+      providerId
+    );
+    if (check.repair) {
+      transaction.update(dateRef, check.repair);
+    }
+    return check;
+  });
+}
+
+async function checkAvailability() {
+  const options = parseOptions();
+  const { db } = await connect(options.target);
+
+  console.log('🔍 Checking availability against appointments...');
+  console.log(`📆 Dates: ${options.fromDateId ?? 'earliest'} to ${options.toDateId ?? 'latest'}\n`);
+
+  const times = (await getDocs(collection(db, 'times'))).docs.map(timeDoc => timeDoc.data() as TimeDoc);
+  const { checked, checks } = await checkAll(db, times, options.fromDateId, options.toDateId);
+  let repaired = 0;
+  let remaining = 0;
+
+  for (const check of checks) {
+    console.log(`📅 ${getDatesPath(check.providerId)}/${check.dateId}`);
+    check.discrepancies.forEach(discrepancy =>
+      console.log(`   ${isRepairable(discrepancy) ? '⚠️ ' : '🚨'} ${discrepancy.message}`)
+    );
+
+    if (!options.fix || !check.repair) {
+      remaining++;
+      continue;
+    }
+
+    try {
+      const found = await repairDate(db, times, check.dateId, check.providerId);
+      const needsStaff = found.discrepancies.filter(discrepancy => !isRepairable(discrepancy));
+      repaired++;
+      if (needsStaff.length > 0) {
+        remaining++;
+      }
+      console.log(`   🔧 Repaired${needsStaff.length > 0 ? ` - ${needsStaff.length} left for staff` : ''}`);
+    } catch (error) {
+      remaining++;
+      console.error(`   ❌ Error repairing ${check.dateId}:`, error);
+    }
+  }
+
+  console.log('\n' + '=' .repeat(50));
+  console.log('\n📊 Summary:');
+  console.log(`   - Dates checked: ${checked}`);
+  console.log(`   - Dates with discrepancies: ${checks.length}`);
+  if (options.fix) {
+    console.log(`   - Dates repaired: ${repaired}`);
+  } else if (checks.some(check => check.repair)) {
+    console.log('\n💡 Run again with --fix to repair the ⚠️ discrepancies; 🚨 ones need staff to move appointments');
+  }
+
+  return remaining;
+}
+
+// Run the check
+checkAvailability()
+  .then((remaining) => {
+    console.log(remaining === 0 ? '\n✅ Availability matches the appointments!' : `\n⚠️ ${remaining} dates still need attention`);
+    process.exit(remaining === 0 ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('\n💥 Check failed:', error);
+    process.exit(2);
+  });
@@ -0,0 +1,50 @@
+/**
+ * Where the scripts read and write - the local emulator or the real project
+ */
+
+/// <reference types="node" />
+
+import { Firestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { FirebaseService } from '../src/app/firebase';
+
+export type Target = 'emulator' | 'project';
+
+// uid the emulator's mock token signs in as - stands in for a staff account
+export const EMULATOR_ACTOR_ID = 'seed-script';
+
+export const TARGET_USAGE = `The emulator target connects to FIRESTORE_EMULATOR_HOST (default 127.0.0.1:8080) as a staff user.
+The project target signs in with ADMIN_EMAIL and ADMIN_PASSWORD, which must be a staff account.`;
+
+export function parseTarget(value: string): Target {
+  if (value !== 'emulator' && value !== 'project') {
+    throw new Error(`Unknown --target: ${value} (expected emulator or project)`);
+  }
+  return value;
+}
+
+/**
+ * Firestore for the target, signed in as staff so the admin-only rules let the script through
+ */
+export async function connect(target: Target): Promise<{ db: Firestore; actorId: string }> {
+  const firebaseService = new FirebaseService();
+  const db = firebaseService.getFirestore();
+
+  if (target === 'emulator') {
+    const [host, port] = (process.env['FIRESTORE_EMULATOR_HOST'] ?? '127.0.0.1:8080').split(':');
+    // The emulator accepts this unsigned token, so no staff account is needed locally
+    connectFirestoreEmulator(db, host, Number(port), { mockUserToken: { sub: EMULATOR_ACTOR_ID, admin: true } });
+    console.log(`🧪 Target: Firestore emulator at ${host}:${port}\n`);
+    return { db, actorId: EMULATOR_ACTOR_ID };
+  }
+
+  const email = process.env['ADMIN_EMAIL'];
+  const password = process.env['ADMIN_PASSWORD'];
+  if (!email || !password) {
+    throw new Error('The project target needs a staff account: set ADMIN_EMAIL and ADMIN_PASSWORD');
+  }
+
+  const { user } = await signInWithEmailAndPassword(firebaseService.getAuth(), email, password);
+  console.log(`🔥 Target: project ${firebaseService.getApp().options.projectId} as ${email}\n`);
+  return { db, actorId: user.uid };
+}
@@ -1,195 +1,616 @@
 /**
- * Firebase Slot Seeding Script - Super Normalized Structure
- * 
- * To run: npx tsx scripts/seed-slots.ts
+ * Firebase Seeding CLI - Super Normalized Structure
+ *
+ * To run: npx tsx scripts/seed-slots.ts [options]   (--help lists them)
+ *
+ * Seeds providers, times, appointment types and each provider's dates for a date range.
+ * Times, dates and each provider's availability template all follow CLINIC_HOURS in
+ * src/app/utils/clinic-hours.ts, the same hours the app's generator starts from.
+ * Booked seats always belong to demo patients' appointments, so the schedule matches
+ * what the app would have written. The same --seed and options give the same data.
+ *
+ * Emulator (default): firebase emulators:start --only firestore --project jakocrudapp
+ * Project: ADMIN_EMAIL=... ADMIN_PASSWORD=... npx tsx scripts/seed-slots.ts --target=project
  */
 
 /// <reference types="node" />
 
-import { doc, setDoc, Timestamp } from 'firebase/firestore';
-import { FirebaseService } from '../src/app/firebase';
-
-// Initialize Firebase service
-const firebaseService = new FirebaseService();
-const db = firebaseService.getFirestore();
-
-// Time slot definitions
-const TIME_SLOTS = [
-  { time: '8:00 AM', hour: 8, minute: 0, period: 'AM' },
-  { time: '8:30 AM', hour: 8, minute: 30, period: 'AM' },
-  { time: '9:00 AM', hour: 9, minute: 0, period: 'AM' },
-  { time: '9:30 AM', hour: 9, minute: 30, period: 'AM' },
-  { time: '10:00 AM', hour: 10, minute: 0, period: 'AM' },
-  { time: '10:30 AM', hour: 10, minute: 30, period: 'AM' },
-  { time: '11:00 AM', hour: 11, minute: 0, period: 'AM' },
-  { time: '11:30 AM', hour: 11, minute: 30, period: 'AM' },
-  { time: '12:00 PM', hour: 12, minute: 0, period: 'PM' },
-  { time: '12:30 PM', hour: 12, minute: 30, period: 'PM' },
-  { time: '1:00 PM', hour: 1, minute: 0, period: 'PM' },
-  { time: '1:30 PM', hour: 1, minute: 30, period: 'PM' },
-  { time: '2:00 PM', hour: 2, minute: 0, period: 'PM' },
-  { time: '2:30 PM', hour: 2, minute: 30, period: 'PM' },
-  { time: '3:00 PM', hour: 3, minute: 0, period: 'PM' },
-  { time: '3:30 PM', hour: 3, minute: 30, period: 'PM' }
+import { parseArgs } from 'node:util';
+import {
+  Firestore,
+  Timestamp,
+  doc,
+  setDoc,
+  writeBatch
+} from 'firebase/firestore';
+import type { Appointment, DateDoc, TimeDoc } from '../src/app/services/appointments.service';
+import type { UserProfile } from '../src/app/services/auth.service';
+import {
+  AppointmentType,
+  DEFAULT_APPOINTMENT_TYPES,
+  getCoveredTimeIds,
+  getSlotsNeeded
+} from '../src/app/utils/appointment-types';
+import { CLINIC_TIME_ZONE, getClinicDateId, getDateId, getDayFromDateId } from '../src/app/utils/clinic-time';
+import { SlotCapacity, getOpenTimeIds, getSeatChange } from '../src/app/utils/slot-capacity';
+import { getMinutesOfDay, getSlotStart } from '../src/app/utils/slot-time';
+import { CLINIC_HOURS, getOpeningMinutes, getOpeningTimes } from '../src/app/utils/clinic-hours';
+import { EMULATOR_ACTOR_ID, TARGET_USAGE, Target, connect, parseTarget } from './firestore-target';
+
+type DensityProfile = 'empty' | 'quiet' | 'normal' | 'busy';
+
+interface SeedOptions {
+  fromDateId: string;
+  toDateId: string;
+  profile: DensityProfile;
+  capacity: number;     // seats per date/time pair
+  seed: string;
+  demoUsers: number;
+  dryRun: boolean;
+  target: Target;
+}
+
+/**
+ * A kind of day and the share of its seats that are booked
+ */
+interface DayScenario {
+  chance: number;
+  minBooked: number;
+  maxBooked: number;
+}
+
+/**
+ * How busy each profile makes the schedule - chances add up to 1
+ * normal matches the mix the script always used to seed
+ */
+const DENSITY_PROFILES: Record<DensityProfile, DayScenario[]> = {
+  empty: [
+    { chance: 1, minBooked: 0, maxBooked: 0 }
+  ],
+  quiet: [
+    { chance: 0.7, minBooked: 0, maxBooked: 0.2 },
+    { chance: 0.25, minBooked: 0.2, maxBooked: 0.5 },
+    { chance: 0.05, minBooked: 0.5, maxBooked: 0.8 }
+  ],
+  normal: [
+    { chance: 0.5, minBooked: 0, maxBooked: 0.45 },   // most slots available
+    { chance: 0.25, minBooked: 0.5, maxBooked: 0.75 }, // moderately busy
+    { chance: 0.15, minBooked: 0.8, maxBooked: 0.95 }, // only a few seats left
+    { chance: 0.1, minBooked: 1, maxBooked: 1 }        // fully booked
+  ],
+  busy: [
+    { chance: 0.2, minBooked: 0.2, maxBooked: 0.5 },
+    { chance: 0.35, minBooked: 0.5, maxBooked: 0.8 },
+    { chance: 0.3, minBooked: 0.8, maxBooked: 0.95 },
+    { chance: 0.15, minBooked: 1, maxBooked: 1 }
+  ]
+};
+
+const DEFAULT_DAYS = 60;
+const MAX_DAYS = 366;
+
+// Each appointment's rule check reads its date once, and a batch may make at most 20 reads
+const APPOINTMENTS_PER_BATCH = 10;
+
+const USAGE = `Usage: npx tsx scripts/seed-slots.ts [options]
+
+  --from=YYYY-MM-DD        first date to seed (default: today in ${CLINIC_TIME_ZONE})
+  --to=YYYY-MM-DD          last date to seed, inclusive (default: ${DEFAULT_DAYS} days from --from)
+  --days=N                 number of days to seed instead of --to
+  --profile=PROFILE        how busy the schedule is: ${Object.keys(DENSITY_PROFILES).join(', ')} (default: normal)
+  --capacity=N             seats per slot (default: 1)
+  --seed=VALUE             random seed - the same seed and options give the same data (default: 1)
+  --demo-users=N           demo patients who own the booked seats (default: 20)
+  --target=TARGET          emulator or project (default: emulator)
+  --dry-run                print what would be seeded without writing anything
+  --help                   show this message
+
+${TARGET_USAGE}`;
+
+// Practitioners and rooms - each gets its own copy of the schedule
+const PROVIDERS = [
+  { providerId: 'dr-alvarez', name: 'Dr. Maria Alvarez', kind: 'practitioner', title: 'General Practitioner' },
+  { providerId: 'dr-chen', name: 'Dr. Daniel Chen', kind: 'practitioner', title: 'Physiotherapist' },
+  { providerId: 'room-2', name: 'Treatment Room 2', kind: 'room', title: 'Procedures and dressings' }
 ];
 
-// Generate date objects for October and November 2025
-function generateDates(): Array<{ dateId: string; date: string; displayDate: string }> {
-  const dates: Array<{ dateId: string; date: string; displayDate: string }> = [];
-  const months = [
-    { month: 10, name: 'October', days: 31 },
-    { month: 11, name: 'November', days: 30 }
-  ];
-  
-  for (const { month, name, days } of months) {
-    for (let day = 1; day <= days; day++) {
-      const dateId = `2025-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-      const displayDate = `${name} ${day}, 2025`;
-      dates.push({ dateId, date: dateId, displayDate });
+// Names demo patients are made up from
+const FIRST_NAMES = ['Amara', 'Ben', 'Carla', 'Dev', 'Elena', 'Farid', 'Grace', 'Hiro', 'Isla', 'Jonas', 'Kemi', 'Luis', 'Maya', 'Noah', 'Olga', 'Priya'];
+const LAST_NAMES = ['Adeyemi', 'Brooks', 'Costa', 'Dubois', 'Evans', 'Fischer', 'Garcia', 'Haddad', 'Ito', 'Jensen', 'Kowalski', 'Lopez', 'Murphy', 'Nakamura', 'Okafor', 'Patel'];
+
+// Every time the clinic's hours offer (wall-clock times in CLINIC_TIME_ZONE)
+const TIMES: TimeDoc[] = getOpeningTimes(CLINIC_HOURS).map(time => ({ ...time, createdAt: Timestamp.now() }));
+
+function isDateId(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && getDateId(getDayFromDateId(value)) === value;
+}
+
+function parseWholeNumber(name: string, value: string | undefined, fallback: number, min = 1): number {
+  if (value === undefined) {
+    return fallback;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new Error(`Invalid --${name} value: ${value}`);
+  }
+  return number;
+}
+
+function parseOptions(): SeedOptions {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      days: { type: 'string' },
+      profile: { type: 'string', default: 'normal' },
+      capacity: { type: 'string' },
+      seed: { type: 'string', default: '1' },
+      'demo-users': { type: 'string' },
+      target: { type: 'string', default: 'emulator' },
+      'dry-run': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const fromDateId = values.from ?? getClinicDateId();
+  if (!isDateId(fromDateId)) {
+    throw new Error(`Invalid --from date: ${fromDateId}`);
+  }
+  if (values.to && values.days) {
+    throw new Error('Use either --to or --days, not both');
+  }
+
+  const days = parseWholeNumber('days', values.days, DEFAULT_DAYS);
+  const toDateId = values.to ?? getDateIds(fromDateId, days)[days - 1];
+  if (!isDateId(toDateId) || toDateId < fromDateId) {
+    throw new Error(`Invalid --to date: ${toDateId}`);
+  }
+
+  const profile = values.profile as DensityProfile;
+  if (!(profile in DENSITY_PROFILES)) {
+    throw new Error(`Unknown --profile: ${profile} (expected ${Object.keys(DENSITY_PROFILES).join(', ')})`);
+  }
+
+  const demoUsers = parseWholeNumber('demo-users', values['demo-users'], 20, 0);
+  if (demoUsers === 0 && profile !== 'empty') {
+    throw new Error('Booked seats need demo patients to belong to: pass --demo-users=N or --profile=empty');
+  }
+
+  return {
+    fromDateId,
+    toDateId,
+    profile,
+    capacity: parseWholeNumber('capacity', values.capacity, 1),
+    seed: values.seed,
+    demoUsers,
+    dryRun: values['dry-run'],
+    target: parseTarget(values.target)
+  };
+}
+
+/**
+ * Every date ID from fromDateId, for the given number of days
+ */
+function getDateIds(fromDateId: string, days: number): string[] {
+  const start = getDayFromDateId(fromDateId);
+  return Array.from({ length: days }, (_, i) =>
+    getDateId(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i))
+  );
+}
+
+function getDateRange(fromDateId: string, toDateId: string): string[] {
+  const dateIds: string[] = [];
+  for (const dateId of getDateIds(fromDateId, MAX_DAYS)) {
+    if (dateId > toDateId) {
+      return dateIds;
+    }
+    dateIds.push(dateId);
+  }
+  throw new Error(`Seed at most ${MAX_DAYS} days at a time`);
+}
+
+/**
+ * Seeded random numbers in [0, 1) - mulberry32 over an FNV-1a hash of the seed,
+ * so the same seed gives the same data on every machine
+ */
+function createRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function pickScenario(random: () => number, profile: DensityProfile): DayScenario {
+  const scenarios = DENSITY_PROFILES[profile];
+  let roll = random();
+  for (const scenario of scenarios) {
+    roll -= scenario.chance;
+    if (roll < 0) {
+      return scenario;
+    }
+  }
+  return scenarios[scenarios.length - 1];
+}
+
+/**
+ * Patient profiles without sign-in accounts, as if reception had added them
+ */
+function buildDemoPatients(random: () => number, count: number, actorId: string): UserProfile[] {
+  return Array.from({ length: count }, (_, i) => {
+    const number = (i + 1).toString().padStart(3, '0');
+    const firstName = pick(random, FIRST_NAMES);
+    const lastName = pick(random, LAST_NAMES);
+    return {
+      uid: `demo-patient-${number}`,
+      email: `${firstName}.${lastName}.${number}@example.com`.toLowerCase(),
+      firstName,
+      lastName,
+      role: 'patient',
+      phoneNumber: `555-01${number}`,
+      createdBy: actorId,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    };
+  });
+}
+
+/**
+ * A provider's date with its appointments - every booked seat belongs to one of them
+ */
+interface PlannedDate {
+  providerId: string;
+  dateDoc: DateDoc;
+  appointments: Appointment[];
+}
+
+function planDate(
+  random: () => number,
+  options: SeedOptions,
+  provider: typeof PROVIDERS[number],
+  dateId: string,
+  patients: UserProfile[],
+  actorId: string
+): PlannedDate | null {
+  // Only the times the clinic opens for on this weekday - none means it's closed
+  const minutes = getOpeningMinutes(CLINIC_HOURS, getDayFromDateId(dateId).getDay());
+  const times = TIMES.filter(time => minutes.includes(getMinutesOfDay(time)));
+  if (times.length === 0) {
+    return null;
+  }
+
+  const slots: { [timeId: string]: SlotCapacity } = {};
+  times.forEach(time => {
+    slots[time.timeId] = { capacity: options.capacity, booked: 0, startsAt: Timestamp.fromDate(getSlotStart(dateId, time)) };
+  });
+
+  const scenario = pickScenario(random, options.profile);
+  const share = scenario.minBooked + random() * (scenario.maxBooked - scenario.minBooked);
+  const targetSeats = Math.round(share * times.length * options.capacity);
+  const singleSlotType = DEFAULT_APPOINTMENT_TYPES.find(type => getSlotsNeeded(type.durationMinutes) === 1)!;
+  const appointments: Appointment[] = [];
+  let bookedSeats = 0;
+
+  while (bookedSeats < targetSeats) {
+    const open = times.filter(time => slots[time.timeId].booked < options.capacity);
+    if (open.length === 0) {
+      break;
     }
+
+    // Longer visits need the following slots free too, otherwise the patient books a single slot
+    const start = pick(random, open);
+    let type: AppointmentType = pick(random, DEFAULT_APPOINTMENT_TYPES);
+    let timeIds = getCoveredTimeIds(times, start.timeId, getSlotsNeeded(type.durationMinutes));
+    if (!timeIds || bookedSeats + timeIds.length > targetSeats ||
+        timeIds.some(timeId => slots[timeId].booked >= options.capacity)) {
+      type = singleSlotType;
+      timeIds = [start.timeId];
+    }
+
+    const startsAt = slots[start.timeId].startsAt!;
+    // Booked up to three weeks ahead, but never later than now
+    const bookedAt = Math.min(Date.now(), startsAt.toMillis() - Math.ceil(random() * 21) * 24 * 60 * 60 * 1000);
+    const createdAt = Timestamp.fromMillis(bookedAt);
+
+    appointments.push({
+      appointmentId: `seed-${provider.providerId}-${dateId}-${(appointments.length + 1).toString().padStart(3, '0')}`,
+      dateId,
+      timeId: start.timeId,
+      timeIds,
+      userId: pick(random, patients).uid,
+      bookedBy: actorId,
+      date: dateId,
+      time: start.time,
+      typeId: type.typeId,
+      typeName: type.name,
+      durationMinutes: type.durationMinutes,
+      providerId: provider.providerId,
+      providerName: provider.name,
+      status: 'confirmed',
+      statusHistory: [{ status: 'confirmed', changedAt: createdAt, changedBy: actorId }],
+      createdAt,
+      startsAt,
+      timeZone: CLINIC_TIME_ZONE
+    });
+
+    timeIds.forEach(timeId => slots[timeId].booked++);
+    bookedSeats += timeIds.length;
   }
-  
-  return dates;
-}
-
-// Create time ID from time string (e.g., "8:00 AM" -> "08-00-AM")
-function createTimeId(time: string): string {
-  return time.replace(/:/g, '-').replace(/ /g, '_');
-}
-
-// Create slot ID from date and time IDs
-function createSlotId(dateId: string, timeId: string): string {
-  return `${dateId}_${timeId}`;
-}
-
-// Helper function to randomly select available times for realism
-function getRandomAvailableTimes(): string[] {
-  const allTimeIds = TIME_SLOTS.map(t => createTimeId(t.time));
-  
-  // Randomly decide the scenario for this date
-  const scenario = Math.random();
-  
-  if (scenario < 0.1) {
-    // 10% chance: Fully booked (no available times)
-    return [];
-  } else if (scenario < 0.25) {
-    // 15% chance: Very busy (only 1-3 slots available)
-    const numSlots = Math.floor(Math.random() * 3) + 1;
-    return allTimeIds
-      .sort(() => Math.random() - 0.5)
-      .slice(0, numSlots);
-  } else if (scenario < 0.5) {
-    // 25% chance: Moderately busy (4-8 slots available)
-    const numSlots = Math.floor(Math.random() * 5) + 4;
-    return allTimeIds
-      .sort(() => Math.random() - 0.5)
-      .slice(0, numSlots);
+
+  return {
+    providerId: provider.providerId,
+    dateDoc: {
+      dateId,
+      date: dateId,
+      displayDate: getDayFromDateId(dateId).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+      providerId: provider.providerId,
+      timeZone: CLINIC_TIME_ZONE,
+      availableTimeIds: getOpenTimeIds(slots),
+      slots,
+      createdAt: Timestamp.now()
+    },
+    appointments
+  };
+}
+
+/**
+ * Write a date and its appointments the way the app books: each batch of appointments goes
+ * with a date write that lists them in seatChanges, which firestore.rules checks for
+ */
+async function writeDate(db: Firestore, plannedDate: PlannedDate) {
+  const { providerId, dateDoc, appointments } = plannedDate;
+  const dateRef = doc(db, 'providers', providerId, 'dates', dateDoc.dateId);
+
+  if (appointments.length === 0) {
+    await setDoc(dateRef, dateDoc);
+    return;
+  }
+
+  for (let start = 0; start < appointments.length; start += APPOINTMENTS_PER_BATCH) {
+    const chunk = appointments.slice(start, start + APPOINTMENTS_PER_BATCH);
+    const seatChanges = Object.assign({}, ...chunk.map(apt => getSeatChange(apt.appointmentId, apt.timeIds!, 1)));
+    const batch = writeBatch(db);
+
+    // The first batch creates the date with every seat already counted; later ones only list their appointments
+    if (start === 0) {
+      batch.set(dateRef, { ...dateDoc, seatChanges });
+    } else {
+      batch.update(dateRef, { seatChanges });
+    }
+    chunk.forEach(appointment => batch.set(doc(db, 'appointments', appointment.appointmentId), appointment));
+    await batch.commit();
+  }
+}
+
+// Dry runs (no Firestore) report what they would have written
+function created(db: Firestore | null): string {
+  return db ? 'Created' : 'Would create';
+}
+
+function logDate(plannedDate: PlannedDate) {
+  const { dateDoc, appointments } = plannedDate;
+  const available = dateDoc.availableTimeIds.length;
+  const booked = `${appointments.length} appointment${appointments.length === 1 ? '' : 's'}`;
+
+  if (available === 0) {
+    console.log(`🔴 ${dateDoc.displayDate} - FULLY BOOKED (${booked})`);
+  } else if (available <= 3) {
+    console.log(`🟡 ${dateDoc.displayDate} - Only ${available} slots left! (${booked})`);
   } else {
-    // 50% chance: Most slots available (9-16 slots)
-    const numSlots = Math.floor(Math.random() * 8) + 9;
-    return allTimeIds
-      .sort(() => Math.random() - 0.5)
-      .slice(0, numSlots)
-      .sort(); // Sort to maintain time order
-  }
-}
-
-async function seedDates() {
-  console.log('📅 Seeding dates collection with realistic availability...\n');
-  
-  const dates = generateDates();
-  let totalAvailableSlots = 0;
-  let fullyBookedDates = 0;
-  let partiallyAvailableDates = 0;
-  
-  for (const dateData of dates) {
+    console.log(`🟢 ${dateDoc.displayDate} - ${available} slots available (${booked})`);
+  }
+}
+
+async function seedDates(db: Firestore | null, plannedDates: PlannedDate[], providerId: string) {
+  console.log(`📅 Seeding dates for ${providerId}...\n`);
+
+  const dates = plannedDates.filter(plannedDate => plannedDate.providerId === providerId);
+  for (const plannedDate of dates) {
     try {
-      const availableTimeIds = getRandomAvailableTimes();
-      
-      await setDoc(doc(db, 'dates', dateData.dateId), {
-        ...dateData,
-        availableTimeIds,
-        createdAt: Timestamp.now()
-      });
-      
-      totalAvailableSlots += availableTimeIds.length;
-      
-      if (availableTimeIds.length === 0) {
-        fullyBookedDates++;
-        console.log(`🔴 ${dateData.displayDate} - FULLY BOOKED`);
-      } else if (availableTimeIds.length <= 3) {
-        console.log(`🟡 ${dateData.displayDate} - Only ${availableTimeIds.length} slots left!`);
-        partiallyAvailableDates++;
-      } else {
-        console.log(`🟢 ${dateData.displayDate} - ${availableTimeIds.length} slots available`);
+      if (db) {
+        await writeDate(db, plannedDate);
       }
+      logDate(plannedDate);
     } catch (error) {
-      console.error(`❌ Error creating date ${dateData.dateId}:`, error);
+      console.error(`❌ Error creating date ${plannedDate.dateDoc.dateId}:`, error);
     }
   }
-  
-  console.log(`\n✅ Created ${dates.length} dates!`);
-  console.log(`   📊 ${fullyBookedDates} fully booked, ${partiallyAvailableDates} running low`);
-  console.log(`   📈 Average: ${Math.round(totalAvailableSlots / dates.length)} slots per date\n`);
+
+  const fullyBooked = dates.filter(plannedDate => plannedDate.dateDoc.availableTimeIds.length === 0).length;
+  const available = dates.reduce((total, plannedDate) => total + plannedDate.dateDoc.availableTimeIds.length, 0);
+  console.log(`\n✅ ${created(db)} ${dates.length} dates!`);
+  console.log(`   📊 ${fullyBooked} fully booked`);
+  console.log(`   📈 Average: ${Math.round(available / Math.max(1, dates.length))} slots per date\n`);
 }
 
-async function seedTimes() {
+async function seedTimes(db: Firestore | null) {
   console.log('⏰ Seeding times collection...\n');
-  
-  for (const timeData of TIME_SLOTS) {
-    const timeId = createTimeId(timeData.time);
-    
+
+  for (const time of TIMES) {
     try {
-      await setDoc(doc(db, 'times', timeId), {
-        timeId,
-        ...timeData,
-        createdAt: Timestamp.now()
-      });
-      console.log(`✅ Created time: ${timeData.time}`);
+      if (db) {
+        await setDoc(doc(db, 'times', time.timeId), time);
+      }
+      console.log(`✅ ${created(db)} time: ${time.time}`);
     } catch (error) {
-      console.error(`❌ Error creating time ${timeId}:`, error);
+      console.error(`❌ Error creating time ${time.timeId}:`, error);
     }
   }
-  
-  console.log(`\n✅ Created ${TIME_SLOTS.length} times!\n`);
+
+  console.log(`\n✅ ${created(db)} ${TIMES.length} times!\n`);
 }
 
+/**
+ * Give each provider an active template with the clinic's hours, so the app's generator
+ * carries on where the seeded dates stop
+ */
+async function seedTemplates(db: Firestore | null, options: SeedOptions, actorId: string) {
+  console.log('🗓️ Seeding availability_templates collection...\n');
 
+  for (const provider of PROVIDERS) {
+    const templateId = `clinic-hours-${provider.providerId}`;
+    try {
+      if (db) {
+        await setDoc(doc(db, 'availability_templates', templateId), {
+          templateId,
+          name: 'Clinic hours',
+          providerId: provider.providerId,
+          blocks: CLINIC_HOURS,
+          capacity: options.capacity,
+          active: true,
+          updatedAt: Timestamp.now(),
+          updatedBy: actorId
+        });
+      }
+      console.log(`✅ ${created(db)} template: Clinic hours for ${provider.name}`);
+    } catch (error) {
+      console.error(`❌ Error creating template ${templateId}:`, error);
+    }
+  }
+
+  console.log(`\n✅ ${created(db)} ${PROVIDERS.length} availability templates!\n`);
+}
+
+async function seedProviders(db: Firestore | null, plannedDates: PlannedDate[]) {
+  console.log('🩺 Seeding providers collection...\n');
+
+  for (const provider of PROVIDERS) {
+    try {
+      if (db) {
+        await setDoc(doc(db, 'providers', provider.providerId), {
+          ...provider,
+          active: true,
+          createdAt: Timestamp.now()
+        });
+      }
+      console.log(`✅ ${created(db)} provider: ${provider.name}`);
+    } catch (error) {
+      console.error(`❌ Error creating provider ${provider.providerId}:`, error);
+    }
+  }
+
+  console.log(`\n✅ ${created(db)} ${PROVIDERS.length} providers!\n`);
+
+  for (const { providerId } of PROVIDERS) {
+    await seedDates(db, plannedDates, providerId);
+  }
+}
+
+async function seedAppointmentTypes(db: Firestore | null) {
+  console.log('🩺 Seeding appointment_types collection...\n');
+
+  for (const type of DEFAULT_APPOINTMENT_TYPES) {
+    try {
+      if (db) {
+        await setDoc(doc(db, 'appointment_types', type.typeId), {
+          ...type,
+          createdAt: Timestamp.now()
+        });
+      }
+      console.log(`✅ ${created(db)} type: ${type.name} (${type.durationMinutes} min)`);
+    } catch (error) {
+      console.error(`❌ Error creating type ${type.typeId}:`, error);
+    }
+  }
+
+  console.log(`\n✅ ${created(db)} ${DEFAULT_APPOINTMENT_TYPES.length} appointment types!\n`);
+}
+
+async function seedPatients(db: Firestore | null, patients: UserProfile[]) {
+  console.log('👤 Seeding demo patients...\n');
+
+  // Patients go first so every appointment's userId already has a profile
+  for (const patient of patients) {
+    try {
+      if (db) {
+        await setDoc(doc(db, 'users', patient.uid), patient);
+      }
+      console.log(`✅ ${created(db)} patient: ${patient.firstName} ${patient.lastName} (${patient.email})`);
+    } catch (error) {
+      console.error(`❌ Error creating patient ${patient.uid}:`, error);
+    }
+  }
+
+  console.log(`\n✅ ${created(db)} ${patients.length} demo patients!\n`);
+}
 
 async function seedAll() {
+  const options = parseOptions();
+  const dateIds = getDateRange(options.fromDateId, options.toDateId);
+  const { db, actorId } = options.dryRun
+    ? { db: null, actorId: EMULATOR_ACTOR_ID }
+    : await connect(options.target);
+
+  // One generator for the whole run, used in a fixed order, so a seed always gives the same plan
+  const random = createRandom(options.seed);
+  const patients = buildDemoPatients(random, options.demoUsers, actorId);
+  const plannedDates = PROVIDERS.flatMap(provider =>
+    dateIds
+      .map(dateId => planDate(random, options, provider, dateId, patients, actorId))
+      .filter((plannedDate): plannedDate is PlannedDate => plannedDate !== null)
+  );
+  const appointmentCount = plannedDates.reduce((total, plannedDate) => total + plannedDate.appointments.length, 0);
+
   console.log('🌱 Starting super-normalized seeding...\n');
+  if (options.dryRun) {
+    console.log('📝 Dry run - nothing will be written\n');
+  }
+  console.log(`📆 Dates: ${options.fromDateId} to ${options.toDateId} (${dateIds.length} days)`);
+  console.log(`📊 Profile: ${options.profile}`);
+  console.log(`💺 Seats per slot: ${options.capacity}`);
+  console.log(`🎲 Seed: ${options.seed}\n`);
   console.log('=' .repeat(50) + '\n');
-  
-  await seedDates();
-  await seedTimes();
-  
+
+  await seedPatients(db, patients);
+  await seedProviders(db, plannedDates);
+  await seedTimes(db);
+  await seedTemplates(db, options, actorId);
+  await seedAppointmentTypes(db);
+
   console.log('=' .repeat(50));
   console.log('\n📊 Summary:');
-  console.log(`   - Dates: 61 documents`);
-  console.log(`   - Times: ${TIME_SLOTS.length} documents`);
-  console.log(`   - Total: Only 77 documents instead of ${61 * TIME_SLOTS.length}!`);
-  console.log('\n💡 Realistic Data:');
-  console.log('   - 10% of dates are fully booked (no slots)');
-  console.log('   - 15% of dates are very busy (1-3 slots)');
-  console.log('   - 25% of dates are moderately busy (4-8 slots)');
-  console.log('   - 50% of dates have most slots available (9-16 slots)');
+  console.log(`   - Providers: ${PROVIDERS.length} documents`);
+  console.log(`   - Dates: ${plannedDates.length / PROVIDERS.length} documents per provider (providers/{providerId}/dates), closed weekdays skipped`);
+  console.log(`   - Times: ${TIMES.length} documents`);
+  console.log(`   - Availability templates: ${PROVIDERS.length} documents, the clinic's hours for each provider`);
+  console.log(`   - Appointment types: ${DEFAULT_APPOINTMENT_TYPES.length} documents`);
+  console.log(`   - Demo patients: ${patients.length} documents (users)`);
+  console.log(`   - Appointments: ${appointmentCount} documents, one for every booked seat`);
   console.log('\n🔧 How it works:');
-  console.log('   - Each date has an availableTimeIds array');
-  console.log('   - When booking, remove the timeId from the array');
-  console.log('   - When canceling, add the timeId back to the array');
+  console.log('   - Each date has a slots map of { capacity, booked } per timeId');
+  console.log('   - availableTimeIds lists the timeIds that still have a free seat');
+  console.log('   - Booking increments booked (removing the timeId once full)');
+  console.log('   - Canceling decrements booked (adding the timeId back)');
+  console.log('   - Longer appointment types take a seat on each consecutive slot they cover');
+  console.log('   - "Any available" combines every provider\'s schedule on the booking page');
+  if (options.dryRun) {
+    console.log('\n📝 Dry run - run again without --dry-run to write this data');
+  }
 }
 
 // Run the seeding
 seedAll()
   .then(() => {
     console.log('\n🎉 Seeding complete!');
-    if (typeof process !== 'undefined') {
-      process.exit(0);
-    }
+    process.exit(0);
   })
   .catch((error) => {
     console.error('\n💥 Seeding failed:', error);
-    if (typeof process !== 'undefined') {
-      process.exit(1);
-    }
+    process.exit(1);
   });
@@ -6,6 +6,7 @@ export const serverRoutes: ServerRoute[] = [
   { path: 'dashboard', renderMode: RenderMode.Prerender },
   { path: 'slots', renderMode: RenderMode.Prerender },
   { path: 'register', renderMode: RenderMode.Prerender },
+  { path: 'forbidden', renderMode: RenderMode.Prerender },
   { path: 'appointments', renderMode: RenderMode.Server }, // SSR with dynamic data
   { path: 'appointments/book', renderMode: RenderMode.Server }, // SSR with dynamic time slots
   { path: 'appointments/view', renderMode: RenderMode.Server }, // SSR with user appointments
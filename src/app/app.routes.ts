@@ -1,7 +1,7 @@
 import { Routes } from '@angular/router';
 import { timesResolver } from './resolvers/times.resolver';
 import { datesResolver } from './resolvers/dates.resolver';
-import { authGuard, guestGuard } from './guards/auth.guard';
+import { authGuard, guestGuard, roleGuard } from './guards/auth.guard';
 
 export const routes: Routes = [
     {
@@ -20,7 +20,9 @@ export const routes: Routes = [
             },
             {
                 path: 'slots',
-                loadComponent: () => import('./pages/slots/slots').then(m => m.Slots)
+                loadComponent: () => import('./pages/slots/slots').then(m => m.Slots),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
             },
             {
                 path: 'appointments',
@@ -40,7 +42,53 @@ export const routes: Routes = [
             },
             {
                 path: 'metrics',
-                loadComponent: () => import('./pages/metrics/metrics').then(m => m.Metrics)
+                loadComponent: () => import('./pages/metrics/metrics').then(m => m.Metrics),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'admin/appointments',
+                loadComponent: () => import('./pages/admin/appointments/appointments').then(m => m.AdminAppointments),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'admin/book',
+                loadComponent: () => import('./pages/admin/staff-booking/staff-booking').then(m => m.StaffBooking),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] },
+                resolve: {
+                    times: timesResolver,
+                    dates: datesResolver
+                }
+            },
+            {
+                path: 'admin/booking-policy',
+                loadComponent: () => import('./pages/admin/booking-policy/booking-policy').then(m => m.BookingPolicySettings),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'admin/availability',
+                loadComponent: () => import('./pages/admin/availability/availability').then(m => m.AvailabilityTemplatesSettings),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'admin/closures',
+                loadComponent: () => import('./pages/admin/closures/closures').then(m => m.ClinicClosures),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'admin/reports',
+                loadComponent: () => import('./pages/admin/reports/reports').then(m => m.AdminReports),
+                canActivate: [roleGuard],
+                data: { roles: ['admin'] }
+            },
+            {
+                path: 'forbidden',
+                loadComponent: () => import('./pages/forbidden/forbidden').then(m => m.Forbidden)
             },
         ]
     },
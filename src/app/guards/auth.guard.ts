@@ -1,6 +1,7 @@
-import { inject } from '@angular/core';
+import { inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
 import { Router, CanActivateFn } from '@angular/router';
-import { AuthService } from '../services/auth.service';
+import { AuthService, UserRole, hasRequiredRole } from '../services/auth.service';
 
 /**
  * Auth Guard - Protects routes that require authentication
@@ -76,3 +77,40 @@ export const guestGuard: CanActivateFn = async () => {
     return true;
   }
 };
+
+/**
+ * Role Guard - Restricts routes to the roles listed in their data, e.g. data: { roles: ['admin'] }
+ * Uses the role from the ID token claims (AuthService.getRole)
+ * Users without one of the roles are sent to the forbidden page
+ * The server has no signed-in user, so it lets the route render and the browser re-checks after hydration
+ */
+export const roleGuard: CanActivateFn = async (route) => {
+  const authService = inject(AuthService);
+  const router = inject(Router);
+  const platformId = inject(PLATFORM_ID);
+  const roles = route.data['roles'] as UserRole[] | undefined;
+
+  if (!isPlatformBrowser(platformId)) {
+    return true;
+  }
+
+  try {
+    const user = await authService.waitForAuthInit(5000);
+    if (!user) {
+      console.log('⛔ Role Guard: No user found, redirecting to login');
+      return router.createUrlTree(['/login']);
+    }
+
+    const role = await authService.getRole();
+    if (hasRequiredRole(role, roles)) {
+      console.log('✅ Role Guard: Access granted for role', role);
+      return true;
+    }
+
+    console.log('⛔ Role Guard: Role not allowed, redirecting to forbidden', { role, roles });
+    return router.createUrlTree(['/forbidden']);
+  } catch (error) {
+    console.error('❌ Role Guard: Error during role check', error);
+    return router.createUrlTree(['/forbidden']);
+  }
+};
@@ -2,13 +2,40 @@
  * Shared type definitions for the booking system
  */
 
+import type { Provider } from '../services/providers.service';
+
 export interface DateSelectedEvent {
   date: Date;
   dateId: string;
   availableCount: number;
 }
 
+export interface FullyBookedDateEvent {
+  date: Date;
+  dateId: string;
+}
+
 export interface TimeSelectedEvent {
   time: string;
   timeId: string;
+  timeIds: string[]; // every slot the visit covers, starting with timeId
+  providerId?: string; // provider with a free seat at this time (missing on the shared schedule)
+}
+
+export interface ProviderSelection {
+  providerId: string | null; // null = any available provider
+  providers: Provider[];     // providers whose schedules are combined
+}
+
+export interface RescheduleSelection {
+  date: Date;
+  dateId: string;
+  time: string;
+  timeId: string;
+}
+
+export interface WaitlistRequest {
+  dateId: string;
+  timeId: string | null; // null = any time on the date
+  time: string | null;
 }
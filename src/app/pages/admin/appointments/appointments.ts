@@ -0,0 +1,263 @@
+import { Component, OnInit, ViewChild, inject, ChangeDetectorRef } from '@angular/core';
+import { MatTableModule, MatTableDataSource } from '@angular/material/table';
+import { MatPaginatorModule, MatPaginator } from '@angular/material/paginator';
+import { MatSortModule, MatSort } from '@angular/material/sort';
+import { AppointmentsService, Appointment } from '../../../services/appointments.service';
+import { AuthService } from '../../../services/auth.service';
+import { RescheduleSelection } from '../../../models/booking.types';
+import { AppointmentStatus, STATUS_LABELS, isChangeableStatus } from '../../../utils/appointment-status';
+import { StaffAppointmentFilter, getHistorySortValue, isHistorySortColumn, matchesStaffFilter } from '../../../utils/appointment-history';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { ConfirmationModalComponent } from '../../../shared/confirmation-modal/confirmation-modal';
+import { SuccessModalComponent } from '../../../shared/success-modal/success-modal';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+import { RescheduleModal } from '../../appointments/components/reschedule-modal/reschedule-modal';
+
+/**
+ * Who an appointment belongs to, looked up once per patient
+ */
+interface Patient {
+  name: string;
+  email: string;
+}
+
+@Component({
+  selector: 'app-admin-appointments',
+  imports: [
+    MatTableModule,
+    MatPaginatorModule,
+    MatSortModule,
+    BackButton,
+    ConfirmationModalComponent,
+    SuccessModalComponent,
+    ErrorModalComponent,
+    RescheduleModal
+  ],
+  templateUrl: './appointments.html',
+  styleUrl: './appointments.scss'
+})
+export class AdminAppointments implements OnInit {
+  private appointmentsService = inject(AppointmentsService);
+  private authService = inject(AuthService);
+  private cdr = inject(ChangeDetectorRef);
+
+  readonly displayedColumns = ['patient', 'date', 'time', 'provider', 'status', 'actions'];
+  readonly statuses = Object.entries(STATUS_LABELS).map(([value, label]) => ({ value: value as AppointmentStatus, label }));
+
+  dataSource = new MatTableDataSource<Appointment>([]);
+  loading = true;
+
+  // Everything is loaded once and filtered client-side
+  private allAppointments: Appointment[] = [];
+  private patients = new Map<string, Patient>();
+  filter: StaffAppointmentFilter = { fromDateId: null, toDateId: null, status: 'all', patient: '' };
+
+  // The table only renders once loaded, so attach paginator and sort when they appear
+  @ViewChild(MatPaginator) set matPaginator(paginator: MatPaginator | undefined) {
+    this.dataSource.paginator = paginator ?? null;
+  }
+
+  @ViewChild(MatSort) set matSort(sort: MatSort | undefined) {
+    this.dataSource.sort = sort ?? null;
+  }
+
+  // Modal states
+  showConfirmationModal = false;
+  showSuccessModal = false;
+  showErrorModal = false;
+  showRescheduleModal = false;
+  successMessage = '';
+  errorMessage = '';
+
+  appointmentToCancel: Appointment | null = null;
+  cancellationReason = '';
+  appointmentToReschedule: Appointment | null = null;
+  isRescheduling = false;
+
+  constructor() {
+    this.dataSource.sortingDataAccessor = (appointment, column) =>
+      column === 'patient' ? this.patientName(appointment) : isHistorySortColumn(column) ? getHistorySortValue(appointment, column) : '';
+  }
+
+  ngOnInit() {
+    this.loadAppointments();
+  }
+
+  async loadAppointments() {
+    this.loading = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.allAppointments = await this.appointmentsService.getAllAppointments();
+
+      // One profile read per patient, however many appointments they have
+      const missing = Array.from(new Set(this.allAppointments.map(apt => apt.userId)))
+        .filter(userId => !this.patients.has(userId));
+      const profiles = await Promise.all(missing.map(userId => this.authService.getUserProfile(userId)));
+      missing.forEach((userId, index) => {
+        const profile = profiles[index];
+        this.patients.set(userId, profile
+          ? { name: `${profile.firstName} ${profile.lastName}`, email: profile.email }
+          : { name: 'Unknown patient', email: '' });
+      });
+
+      this.applyFilters();
+    } catch (error) {
+      console.error('❌ AdminAppointments: Error loading appointments:', error);
+      this.showError('Unable to load appointments.');
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  applyFilters() {
+    this.dataSource.data = this.allAppointments.filter(apt => {
+      const patient = this.patients.get(apt.userId);
+      return matchesStaffFilter(apt, `${patient?.name ?? ''} ${patient?.email ?? ''}`, this.filter);
+    });
+    this.dataSource.paginator?.firstPage();
+  }
+
+  onFromDateChange(event: Event) {
+    this.filter = { ...this.filter, fromDateId: (event.target as HTMLInputElement).value || null };
+    this.applyFilters();
+  }
+
+  onToDateChange(event: Event) {
+    this.filter = { ...this.filter, toDateId: (event.target as HTMLInputElement).value || null };
+    this.applyFilters();
+  }
+
+  onStatusChange(event: Event) {
+    this.filter = { ...this.filter, status: (event.target as HTMLSelectElement).value as StaffAppointmentFilter['status'] };
+    this.applyFilters();
+  }
+
+  onPatientInput(event: Event) {
+    this.filter = { ...this.filter, patient: (event.target as HTMLInputElement).value };
+    this.applyFilters();
+  }
+
+  clearFilters() {
+    this.filter = { fromDateId: null, toDateId: null, status: 'all', patient: '' };
+    this.applyFilters();
+  }
+
+  get hasFilters(): boolean {
+    const { fromDateId, toDateId, status, patient } = this.filter;
+    return !!(fromDateId || toDateId || status !== 'all' || patient);
+  }
+
+  patientName(appointment: Appointment): string {
+    return this.patients.get(appointment.userId)?.name ?? 'Unknown patient';
+  }
+
+  patientEmail(appointment: Appointment): string {
+    return this.patients.get(appointment.userId)?.email ?? '';
+  }
+
+  statusLabel(status: AppointmentStatus): string {
+    return STATUS_LABELS[status];
+  }
+
+  isChangeable(status: AppointmentStatus): boolean {
+    return isChangeableStatus(status);
+  }
+
+  cancelAppointment(appointment: Appointment) {
+    this.appointmentToCancel = appointment;
+    this.cancellationReason = '';
+    this.showConfirmationModal = true;
+    this.cdr.detectChanges();
+  }
+
+  get cancellationMessage(): string {
+    const appointment = this.appointmentToCancel;
+    return appointment
+      ? `Cancel ${this.patientName(appointment)}'s appointment on ${appointment.date} at ${appointment.time}?\n\nThe seat is released straight away and the patient sees it was cancelled by the clinic.`
+      : '';
+  }
+
+  async onConfirmCancel() {
+    const appointment = this.appointmentToCancel;
+    if (!appointment) return;
+
+    this.showConfirmationModal = false;
+    this.appointmentToCancel = null;
+    this.cdr.detectChanges();
+
+    const result = await this.appointmentsService.cancelAppointment(appointment.appointmentId, this.cancellationReason);
+    if (result.success) {
+      this.showSuccess(`${this.patientName(appointment)}'s appointment on ${appointment.date} at ${appointment.time} has been cancelled.`);
+      this.loadAppointments();
+    } else {
+      this.showError(result.error || 'Failed to cancel appointment. Please try again.');
+    }
+  }
+
+  onCancelCancel() {
+    this.showConfirmationModal = false;
+    this.appointmentToCancel = null;
+    this.cancellationReason = '';
+    this.cdr.detectChanges();
+  }
+
+  rescheduleAppointment(appointment: Appointment) {
+    this.appointmentToReschedule = appointment;
+    this.showRescheduleModal = true;
+    this.cdr.detectChanges();
+  }
+
+  async onConfirmReschedule(selection: RescheduleSelection) {
+    const original = this.appointmentToReschedule;
+    if (!original || this.isRescheduling) return;
+
+    this.isRescheduling = true;
+    this.cdr.detectChanges();
+
+    const result = await this.appointmentsService.rescheduleAppointment(original.appointmentId, selection.dateId, selection.timeId);
+
+    this.isRescheduling = false;
+    this.showRescheduleModal = false;
+    this.appointmentToReschedule = null;
+
+    if (result.success) {
+      this.showSuccess(`${this.patientName(original)}'s appointment on ${original.date} at ${original.time} has been moved to ${selection.dateId} at ${selection.time}.`);
+      this.loadAppointments();
+    } else {
+      // Original appointment is untouched when the transaction fails
+      this.showError(result.error || 'Failed to reschedule appointment. Please try again.');
+    }
+  }
+
+  onCancelReschedule() {
+    if (this.isRescheduling) return;
+
+    this.showRescheduleModal = false;
+    this.appointmentToReschedule = null;
+    this.cdr.detectChanges();
+  }
+
+  private showSuccess(message: string) {
+    this.successMessage = message;
+    this.showSuccessModal = true;
+    this.cdr.detectChanges();
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onSuccessModalClose() {
+    this.showSuccessModal = false;
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+    this.cdr.detectChanges();
+  }
+}
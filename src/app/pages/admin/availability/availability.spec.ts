@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AvailabilityTemplatesSettings } from './availability';
+
+describe('AvailabilityTemplatesSettings', () => {
+  let component: AvailabilityTemplatesSettings;
+  let fixture: ComponentFixture<AvailabilityTemplatesSettings>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AvailabilityTemplatesSettings]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AvailabilityTemplatesSettings);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,219 @@
+import { Component, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { FormArray, FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ProvidersService, Provider } from '../../../services/providers.service';
+import {
+  AvailabilityTemplatesService,
+  GenerationSummary,
+  MAX_GENERATION_DAYS
+} from '../../../services/availability-templates.service';
+import { AvailabilityTemplate } from '../../../utils/availability-templates';
+import { AvailabilityBlock, CLINIC_HOURS, WEEKDAY_NAMES } from '../../../utils/clinic-hours';
+import { SLOT_MINUTES } from '../../../utils/appointment-types';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+
+@Component({
+  selector: 'app-availability-templates',
+  imports: [ReactiveFormsModule, BackButton, ErrorModalComponent],
+  templateUrl: './availability.html',
+  styleUrl: './availability.scss'
+})
+export class AvailabilityTemplatesSettings implements OnInit {
+  private formBuilder = inject(FormBuilder);
+  private providersService = inject(ProvidersService);
+  private templatesService = inject(AvailabilityTemplatesService);
+  private cdr = inject(ChangeDetectorRef);
+
+  readonly weekdays = WEEKDAY_NAMES.map((name, day) => ({ day, label: name.slice(0, 3) }));
+  readonly intervals = [SLOT_MINUTES, SLOT_MINUTES * 2];
+  readonly maxDays = MAX_GENERATION_DAYS;
+
+  providers: Provider[] = [];
+  templates: AvailabilityTemplate[] = [];
+  // Template being edited - null = a new one
+  editingId: string | null = null;
+
+  templateForm!: FormGroup;
+  generateForm!: FormGroup;
+  loading = true;
+  saving = false;
+  generating = false;
+  summary: GenerationSummary | null = null;
+
+  showErrorModal = false;
+  errorMessage = '';
+
+  get blocks(): FormArray {
+    return this.templateForm.get('blocks') as FormArray;
+  }
+
+  get editingTemplate(): AvailabilityTemplate | undefined {
+    return this.templates.find(template => template.templateId === this.editingId);
+  }
+
+  ngOnInit() {
+    this.templateForm = this.formBuilder.group({
+      name: ['', Validators.required],
+      providerId: [''],
+      capacity: [1, [Validators.required, Validators.min(1)]],
+      active: [true],
+      blocks: this.formBuilder.array([])
+    });
+    this.generateForm = this.formBuilder.group({
+      days: [60, [Validators.required, Validators.min(1), Validators.max(MAX_GENERATION_DAYS)]]
+    });
+
+    this.newTemplate();
+    this.load();
+  }
+
+  private async load() {
+    try {
+      [this.providers, this.templates] = await Promise.all([
+        this.providersService.getProviders(),
+        this.templatesService.getTemplates()
+      ]);
+    } catch (error) {
+      console.error('❌ Availability: Error loading templates:', error);
+      this.showError('Unable to load the availability templates.');
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  private createBlock(block: AvailabilityBlock): FormGroup {
+    return this.formBuilder.group({
+      weekdays: [[...block.weekdays]],
+      start: [block.start, Validators.required],
+      end: [block.end, Validators.required],
+      intervalMinutes: [block.intervalMinutes, Validators.required]
+    });
+  }
+
+  private setBlocks(blocks: AvailabilityBlock[]) {
+    this.blocks.clear();
+    blocks.forEach(block => this.blocks.push(this.createBlock(block)));
+  }
+
+  newTemplate() {
+    this.editingId = null;
+    this.templateForm.reset({ name: '', providerId: '', capacity: 1, active: true });
+    this.setBlocks(CLINIC_HOURS);
+  }
+
+  editTemplate(template: AvailabilityTemplate) {
+    this.editingId = template.templateId;
+    this.templateForm.reset({
+      name: template.name,
+      providerId: template.providerId ?? '',
+      capacity: template.capacity,
+      active: template.active
+    });
+    this.setBlocks(template.blocks);
+  }
+
+  addBlock() {
+    this.blocks.push(this.createBlock({ weekdays: [], start: '09:00', end: '12:00', intervalMinutes: SLOT_MINUTES }));
+  }
+
+  removeBlock(index: number) {
+    this.blocks.removeAt(index);
+  }
+
+  hasWeekday(index: number, day: number): boolean {
+    return (this.blocks.at(index).value.weekdays as number[]).includes(day);
+  }
+
+  toggleWeekday(index: number, day: number) {
+    const control = this.blocks.at(index).get('weekdays')!;
+    const weekdays = control.value as number[];
+    control.setValue(weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]);
+  }
+
+  async onSave() {
+    if (this.templateForm.invalid || this.saving) {
+      this.templateForm.markAllAsTouched();
+      return;
+    }
+
+    this.saving = true;
+    this.cdr.detectChanges();
+
+    const value = this.templateForm.value;
+    const result = await this.templatesService.saveTemplate({
+      ...(this.editingId ? { templateId: this.editingId } : {}),
+      name: value.name,
+      ...(value.providerId ? { providerId: value.providerId } : {}),
+      capacity: Number(value.capacity),
+      active: !!value.active,
+      blocks: value.blocks.map((block: AvailabilityBlock) => ({ ...block, intervalMinutes: Number(block.intervalMinutes) }))
+    });
+
+    this.saving = false;
+    if (result.success) {
+      this.editingId = result.templateId ?? null;
+      this.templates = await this.templatesService.getTemplates();
+    } else {
+      this.showError(result.error || 'Unable to save this template.');
+    }
+    this.cdr.detectChanges();
+  }
+
+  async onDelete(template: AvailabilityTemplate) {
+    const result = await this.templatesService.deleteTemplate(template.templateId);
+    if (!result.success) {
+      this.showError(result.error || 'Unable to delete this template.');
+      return;
+    }
+
+    if (this.editingId === template.templateId) {
+      this.newTemplate();
+    }
+    this.templates = this.templates.filter(t => t.templateId !== template.templateId);
+    this.cdr.detectChanges();
+  }
+
+  async onGenerate() {
+    if (this.generateForm.invalid || this.generating) {
+      this.generateForm.markAllAsTouched();
+      return;
+    }
+
+    this.generating = true;
+    this.summary = null;
+    this.cdr.detectChanges();
+
+    const result = await this.templatesService.generateAvailability(Number(this.generateForm.value.days));
+
+    this.generating = false;
+    if (result.success) {
+      this.summary = result.summary ?? null;
+    } else {
+      this.showError(result.error || 'Unable to generate availability.');
+    }
+    this.cdr.detectChanges();
+  }
+
+  scheduleLabel(providerId?: string): string {
+    if (!providerId) {
+      return 'Shared clinic schedule';
+    }
+    return this.providers.find(provider => provider.providerId === providerId)?.name ?? providerId;
+  }
+
+  blockLabel(block: AvailabilityBlock): string {
+    const days = block.weekdays.map(day => WEEKDAY_NAMES[day].slice(0, 3)).join(', ');
+    return `${days} ${block.start}–${block.end} every ${block.intervalMinutes} min`;
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BookingPolicySettings } from './booking-policy';
+
+describe('BookingPolicySettings', () => {
+  let component: BookingPolicySettings;
+  let fixture: ComponentFixture<BookingPolicySettings>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BookingPolicySettings]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(BookingPolicySettings);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
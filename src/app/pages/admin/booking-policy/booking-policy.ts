@@ -0,0 +1,110 @@
+import { Component, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { DatePipe } from '@angular/common';
+import { BookingPolicyService } from '../../../services/booking-policy.service';
+import { BookingPolicy, SameDayRule } from '../../../utils/booking-policy';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { SuccessModalComponent } from '../../../shared/success-modal/success-modal';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+
+@Component({
+  selector: 'app-booking-policy',
+  imports: [ReactiveFormsModule, DatePipe, BackButton, SuccessModalComponent, ErrorModalComponent],
+  templateUrl: './booking-policy.html',
+  styleUrl: './booking-policy.scss'
+})
+export class BookingPolicySettings implements OnInit {
+  private formBuilder = inject(FormBuilder);
+  private bookingPolicyService = inject(BookingPolicyService);
+  private cdr = inject(ChangeDetectorRef);
+
+  policyForm!: FormGroup;
+  loading = true;
+  saving = false;
+  lastUpdated: Date | null = null;
+
+  readonly sameDayRules: { value: SameDayRule; label: string }[] = [
+    { value: 'allow', label: 'Allow any number of appointments per day' },
+    { value: 'no-overlap', label: 'Allow several per day, but no overlapping times' },
+    { value: 'one-per-day', label: 'One appointment per patient per day' }
+  ];
+
+  // Modal states
+  showSuccessModal = false;
+  showErrorModal = false;
+  errorMessage = '';
+
+  ngOnInit() {
+    this.policyForm = this.formBuilder.group({
+      maxActiveAppointments: [null, [Validators.required, Validators.min(1)]],
+      minLeadTimeMinutes: [null, [Validators.required, Validators.min(0)]],
+      maxHorizonDays: [null, [Validators.required, Validators.min(1)]],
+      cancellationCutoffHours: [null, [Validators.required, Validators.min(0)]],
+      requireApproval: [false],
+      sameDayRule: ['no-overlap', Validators.required]
+    });
+
+    this.loadPolicy();
+  }
+
+  async loadPolicy() {
+    try {
+      const policy = await this.bookingPolicyService.getPolicy();
+      this.policyForm.patchValue(policy);
+      this.lastUpdated = policy.updatedAt?.toDate() ?? null;
+    } catch (error) {
+      console.error('❌ BookingPolicy: Error loading policy:', error);
+      this.errorMessage = 'Unable to load the booking policy.';
+      this.showErrorModal = true;
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async onSave() {
+    if (this.policyForm.invalid || this.saving) {
+      this.policyForm.markAllAsTouched();
+      return;
+    }
+
+    this.saving = true;
+    this.cdr.detectChanges();
+
+    const value = this.policyForm.value;
+    const policy: BookingPolicy = {
+      maxActiveAppointments: Number(value.maxActiveAppointments),
+      minLeadTimeMinutes: Number(value.minLeadTimeMinutes),
+      maxHorizonDays: Number(value.maxHorizonDays),
+      cancellationCutoffHours: Number(value.cancellationCutoffHours),
+      requireApproval: !!value.requireApproval,
+      sameDayRule: value.sameDayRule
+    };
+
+    const result = await this.bookingPolicyService.updatePolicy(policy);
+
+    if (result.success) {
+      this.lastUpdated = new Date();
+      this.showSuccessModal = true;
+    } else {
+      this.errorMessage = result.error || 'Unable to save the booking policy.';
+      this.showErrorModal = true;
+    }
+
+    this.saving = false;
+    this.cdr.detectChanges();
+  }
+
+  isInvalid(field: string): boolean {
+    const control = this.policyForm.get(field);
+    return !!control && control.invalid && control.touched;
+  }
+
+  onSuccessModalClose() {
+    this.showSuccessModal = false;
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
+}
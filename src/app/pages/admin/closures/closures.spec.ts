@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ClinicClosures } from './closures';
+
+describe('ClinicClosures', () => {
+  let component: ClinicClosures;
+  let fixture: ComponentFixture<ClinicClosures>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ClinicClosures]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ClinicClosures);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,146 @@
+import { Component, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ClosuresService, AffectedAppointment } from '../../../services/closures.service';
+import { Closure, formatClosureDates } from '../../../utils/closures';
+import { getClinicDateId } from '../../../utils/clinic-time';
+import { AppointmentStatus, STATUS_LABELS } from '../../../utils/appointment-status';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+
+@Component({
+  selector: 'app-closures',
+  imports: [ReactiveFormsModule, BackButton, ErrorModalComponent],
+  templateUrl: './closures.html',
+  styleUrl: './closures.scss'
+})
+export class ClinicClosures implements OnInit {
+  private formBuilder = inject(FormBuilder);
+  private closuresService = inject(ClosuresService);
+  private cdr = inject(ChangeDetectorRef);
+
+  closures: Closure[] = [];
+  closureForm!: FormGroup;
+  loading = true;
+  saving = false;
+
+  // Closure whose appointments are listed below the form
+  reviewing: Closure | null = null;
+  affected: AffectedAppointment[] = [];
+  loadingAffected = false;
+
+  showErrorModal = false;
+  errorMessage = '';
+
+  ngOnInit() {
+    const todayId = getClinicDateId();
+    this.closureForm = this.formBuilder.group({
+      startDateId: [todayId, Validators.required],
+      endDateId: [todayId, Validators.required],
+      reason: ['', [Validators.required, Validators.maxLength(200)]]
+    });
+
+    this.loadClosures();
+  }
+
+  async loadClosures() {
+    try {
+      // Past closures no longer matter to staff
+      const todayId = getClinicDateId();
+      this.closures = (await this.closuresService.getClosures()).filter(closure => closure.endDateId >= todayId);
+    } catch (error) {
+      console.error('❌ Closures: Error loading closures:', error);
+      this.showError('Unable to load closures.');
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onStartDateChange() {
+    // A single-day closure is the common case, so the end follows the start until it is set later
+    const { startDateId, endDateId } = this.closureForm.value;
+    if (!endDateId || endDateId < startDateId) {
+      this.closureForm.patchValue({ endDateId: startDateId });
+    }
+  }
+
+  async onAddClosure() {
+    if (this.closureForm.invalid || this.saving) {
+      this.closureForm.markAllAsTouched();
+      return;
+    }
+
+    this.saving = true;
+    this.cdr.detectChanges();
+
+    const { startDateId, endDateId, reason } = this.closureForm.value;
+    const result = await this.closuresService.addClosure(startDateId, endDateId, reason);
+
+    this.saving = false;
+    if (result.success) {
+      this.closureForm.patchValue({ reason: '' });
+      this.closureForm.markAsUntouched();
+      await this.loadClosures();
+      this.reviewing = this.closures.find(closure => closure.closureId === result.closureId) ?? null;
+      this.affected = result.affected ?? [];
+    } else {
+      this.showError(result.error || 'Unable to add this closure.');
+    }
+    this.cdr.detectChanges();
+  }
+
+  async reviewClosure(closure: Closure) {
+    this.reviewing = closure;
+    this.affected = [];
+    this.loadingAffected = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.affected = await this.closuresService.getAffectedAppointments(closure);
+    } catch (error) {
+      console.error('❌ Closures: Error loading affected appointments:', error);
+      this.showError('Unable to load the appointments for this closure.');
+    } finally {
+      this.loadingAffected = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async onReopen(closure: Closure) {
+    const result = await this.closuresService.deleteClosure(closure.closureId);
+    if (!result.success) {
+      this.showError(result.error || 'Unable to reopen these dates.');
+      return;
+    }
+
+    if (this.reviewing?.closureId === closure.closureId) {
+      this.reviewing = null;
+      this.affected = [];
+    }
+    this.closures = this.closures.filter(c => c.closureId !== closure.closureId);
+    this.cdr.detectChanges();
+  }
+
+  closureDates(closure: Closure): string {
+    return formatClosureDates(closure);
+  }
+
+  statusLabel(status: AppointmentStatus): string {
+    return STATUS_LABELS[status];
+  }
+
+  isInvalid(field: string): boolean {
+    const control = this.closureForm.get(field);
+    return !!control && control.invalid && control.touched;
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
+}
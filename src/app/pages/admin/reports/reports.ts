@@ -0,0 +1,269 @@
+import { Component, OnInit, PLATFORM_ID, inject, ChangeDetectorRef } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { ReportData, ReportsService } from '../../../services/reports.service';
+import {
+  BookingStats,
+  CapacityRow,
+  HEATMAP_WEEKDAYS,
+  HeatmapCell,
+  HeatmapRow,
+  ReportPeriod,
+  SeatTotals,
+  getBookingStats,
+  getBusyHeatmap,
+  getCapacityRows,
+  getDateTotals,
+  getUtilisation
+} from '../../../utils/capacity-report';
+import { WEEKDAY_NAMES } from '../../../utils/clinic-hours';
+import { getWindowDateIds } from '../../../utils/availability-templates';
+import { getClinicDateId, getDateId, getDayFromDateId } from '../../../utils/clinic-time';
+import { CsvValue, toCsv } from '../../../utils/csv';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+
+// Default range: the last 30 days and the next 30
+const PAST_DAYS = 30;
+const REPORT_DAYS = 60;
+
+// Schedule filter values besides a providerId
+const ALL_SCHEDULES = 'all';
+const SHARED_SCHEDULE = 'shared';
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month'
+};
+
+/**
+ * Percentage with one decimal for CSV cells, empty when there is nothing to divide
+ */
+function toPercent(share: number | null): CsvValue {
+  return share === null ? null : Math.round(share * 1000) / 10;
+}
+
+@Component({
+  selector: 'app-admin-reports',
+  imports: [BackButton, ErrorModalComponent],
+  templateUrl: './reports.html',
+  styleUrl: './reports.scss'
+})
+export class AdminReports implements OnInit {
+  private reportsService = inject(ReportsService);
+  private cdr = inject(ChangeDetectorRef);
+  private platformId = inject(PLATFORM_ID);
+
+  readonly periods = (Object.keys(PERIOD_LABELS) as ReportPeriod[]).map(value => ({ value, label: PERIOD_LABELS[value] }));
+  readonly weekdays = HEATMAP_WEEKDAYS.map(day => WEEKDAY_NAMES[day].slice(0, 3));
+  readonly allSchedules = ALL_SCHEDULES;
+
+  fromDateId = '';
+  toDateId = '';
+  schedule = ALL_SCHEDULES;
+  period: ReportPeriod = 'week';
+
+  // Everything in the loaded range - the schedule and period are applied client-side
+  data: ReportData | null = null;
+  loading = true;
+
+  totals: SeatTotals = { capacity: 0, booked: 0, available: 0 };
+  rows: CapacityRow[] = [];
+  heatmap: HeatmapRow[] = [];
+  stats: BookingStats | null = null;
+
+  showErrorModal = false;
+  errorMessage = '';
+
+  ngOnInit() {
+    const today = getDayFromDateId(getClinicDateId());
+    this.fromDateId = getDateId(new Date(today.getFullYear(), today.getMonth(), today.getDate() - PAST_DAYS));
+    this.toDateId = getWindowDateIds(this.fromDateId, REPORT_DAYS)[REPORT_DAYS - 1];
+
+    // Staff data needs the signed-in user, so the server renders the empty page
+    if (isPlatformBrowser(this.platformId)) {
+      this.loadReports();
+    }
+  }
+
+  async loadReports() {
+    if (!this.fromDateId || !this.toDateId) {
+      return;
+    }
+    if (this.toDateId < this.fromDateId) {
+      this.showError("The report can't end before it starts.");
+      return;
+    }
+
+    this.loading = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.data = await this.reportsService.getReportData(this.fromDateId, this.toDateId);
+      // A provider from an earlier range might not exist any more
+      if (!this.data.schedules.some(schedule => this.scheduleValue(schedule.providerId) === this.schedule)) {
+        this.schedule = ALL_SCHEDULES;
+      }
+      this.updateReports();
+    } catch (error) {
+      console.error('❌ Reports: Error loading report data:', error);
+      // ReportsService throws a readable message when the caller isn't staff
+      this.showError(error instanceof Error && error.message ? error.message : 'Unable to load the reports.');
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onFromChange(event: Event) {
+    this.fromDateId = (event.target as HTMLInputElement).value;
+  }
+
+  onToChange(event: Event) {
+    this.toDateId = (event.target as HTMLInputElement).value;
+  }
+
+  onScheduleChange(event: Event) {
+    this.schedule = (event.target as HTMLSelectElement).value;
+    this.updateReports();
+  }
+
+  setPeriod(period: ReportPeriod) {
+    this.period = period;
+    this.rows = getCapacityRows(this.selectedDates(), period);
+  }
+
+  scheduleValue(providerId?: string): string {
+    return providerId ?? SHARED_SCHEDULE;
+  }
+
+  /**
+   * Recompute every report for the selected schedule
+   */
+  private updateReports() {
+    const dates = this.selectedDates();
+    this.totals = dates.map(getDateTotals).reduce((totals, date) => ({
+      capacity: totals.capacity + date.capacity,
+      booked: totals.booked + date.booked,
+      available: totals.available + date.available
+    }), { capacity: 0, booked: 0, available: 0 });
+    this.rows = getCapacityRows(dates, this.period);
+    this.heatmap = getBusyHeatmap(dates, this.data?.times ?? []);
+    this.stats = getBookingStats((this.data?.appointments ?? []).filter(apt => this.isSelected(apt.providerId)));
+  }
+
+  private selectedDates() {
+    return (this.data?.dates ?? []).filter(dateDoc => this.isSelected(dateDoc.providerId));
+  }
+
+  private isSelected(providerId?: string): boolean {
+    return this.schedule === ALL_SCHEDULES || this.scheduleValue(providerId) === this.schedule;
+  }
+
+  utilisation(totals: Pick<SeatTotals, 'booked' | 'capacity'>): string {
+    const share = getUtilisation(totals);
+    return share === null ? '—' : `${Math.round(share * 100)}%`;
+  }
+
+  barWidth(totals: Pick<SeatTotals, 'booked' | 'capacity'>): number {
+    return (getUtilisation(totals) ?? 0) * 100;
+  }
+
+  cancellationRate(): string {
+    const rate = this.stats?.cancellationRate ?? null;
+    return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+  }
+
+  averageLeadTime(): string {
+    const days = this.stats?.averageLeadDays ?? null;
+    if (days === null) {
+      return '—';
+    }
+    return days < 1 ? `${Math.round(days * 24)} hours` : `${days.toFixed(1)} days`;
+  }
+
+  /**
+   * Heatmap shade - darker for a busier weekday and time
+   */
+  heatClass(cell: HeatmapCell): string {
+    const share = getUtilisation(cell);
+    if (share === null) {
+      return 'bg-gray-50 text-gray-300';
+    }
+    if (share >= 0.9) {
+      return 'bg-emerald-800 text-white';
+    }
+    if (share >= 0.7) {
+      return 'bg-emerald-600 text-white';
+    }
+    if (share >= 0.4) {
+      return 'bg-emerald-400 text-white';
+    }
+    return share > 0 ? 'bg-emerald-100 text-emerald-900' : 'bg-white text-gray-500';
+  }
+
+  exportCapacity() {
+    this.downloadCsv(`capacity-by-${this.period}`, toCsv(
+      [PERIOD_LABELS[this.period], 'Dates', 'Capacity', 'Booked', 'Available', 'Utilisation %'],
+      this.rows.map(row => [row.key, row.dates, row.capacity, row.booked, row.available, toPercent(getUtilisation(row))])
+    ));
+  }
+
+  exportHeatmap() {
+    this.downloadCsv('busiest-times', toCsv(
+      ['Weekday', 'Time', 'Booked', 'Capacity', 'Utilisation %'],
+      HEATMAP_WEEKDAYS.flatMap((weekday, column) => this.heatmap.map(row => {
+        const cell = row.cells[column];
+        return [WEEKDAY_NAMES[weekday], row.time.time, cell.booked, cell.capacity, toPercent(getUtilisation(cell))];
+      }))
+    ));
+  }
+
+  exportBookingStats() {
+    const stats = this.stats;
+    if (!stats) {
+      return;
+    }
+
+    this.downloadCsv('booking-stats', toCsv(['Metric', 'Value'], [
+      ['Schedule', this.scheduleName()],
+      ['Bookings', stats.bookings],
+      ['Cancelled', stats.cancelled],
+      ['Cancellation rate %', toPercent(stats.cancellationRate)],
+      ['Average lead time (days)', stats.averageLeadDays === null ? null : Math.round(stats.averageLeadDays * 10) / 10]
+    ]));
+  }
+
+  scheduleName(): string {
+    if (this.schedule === ALL_SCHEDULES) {
+      return 'All schedules';
+    }
+    return this.data?.schedules.find(schedule => this.scheduleValue(schedule.providerId) === this.schedule)?.name ?? this.schedule;
+  }
+
+  /**
+   * Save a report as a file named after it and the loaded range
+   */
+  private downloadCsv(name: string, csv: string) {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}-${this.fromDateId}-to-${this.toDateId}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
+}
@@ -0,0 +1,296 @@
+import { Component, OnInit, OnDestroy, inject, ChangeDetectorRef } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { AppointmentsService } from '../../../services/appointments.service';
+import { SlotHoldsService } from '../../../services/slot-holds.service';
+import { PatientsService } from '../../../services/patients.service';
+import { UserProfile } from '../../../services/auth.service';
+import { Provider } from '../../../services/providers.service';
+import { DateSelectedEvent, ProviderSelection, TimeSelectedEvent } from '../../../models/booking.types';
+import { AppointmentType, getSlotsNeeded } from '../../../utils/appointment-types';
+import { BackButton } from '../../../shared/back-button/back-button';
+import { SuccessModalComponent } from '../../../shared/success-modal/success-modal';
+import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+import { AppointmentTypeSelector } from '../../appointments/components/appointment-type-selector/appointment-type-selector';
+import { ProviderSelector } from '../../appointments/components/provider-selector/provider-selector';
+import { DateSelector } from '../../appointments/components/date-selector/date-selector';
+import { TimeSelector } from '../../appointments/components/time-selector/time-selector';
+import { AppointmentSummary } from '../../appointments/components/appointment-summary/appointment-summary';
+
+@Component({
+  selector: 'app-staff-booking',
+  imports: [
+    ReactiveFormsModule,
+    BackButton,
+    SuccessModalComponent,
+    ErrorModalComponent,
+    AppointmentTypeSelector,
+    ProviderSelector,
+    DateSelector,
+    TimeSelector,
+    AppointmentSummary
+  ],
+  templateUrl: './staff-booking.html',
+  styleUrl: './staff-booking.scss'
+})
+export class StaffBooking implements OnInit, OnDestroy {
+  private formBuilder = inject(FormBuilder);
+  private appointmentsService = inject(AppointmentsService);
+  private slotHoldsService = inject(SlotHoldsService);
+  private patientsService = inject(PatientsService);
+  private cdr = inject(ChangeDetectorRef);
+
+  // Step 1 - who the booking is for
+  patient: UserProfile | null = null;
+  search = '';
+  results: UserProfile[] = [];
+  searching = false;
+  showNewPatientForm = false;
+  patientForm!: FormGroup;
+  savingPatient = false;
+
+  // Step 2 - the same choices a patient makes on the booking page
+  selectedType: AppointmentType | null = null;
+  selectedProviderId: string | null = null;
+  providers: Provider[] = [];
+  providerIds: string[] = [];
+  slotProviderId: string | null = null;
+  selectedDate: Date | null = null;
+  selectedDateId: string | null = null;
+  selectedTime: string | null = null;
+  selectedTimeId: string | null = null;
+  holdExpiresAt: Date | null = null;
+  isBooking = false;
+  // Idempotency key for the current attempt, as on the patient booking page
+  private bookingAttemptKey: string | null = null;
+
+  showSuccessModal = false;
+  showErrorModal = false;
+  successMessage = '';
+  errorMessage = '';
+
+  ngOnInit() {
+    this.patientForm = this.formBuilder.group({
+      firstName: ['', Validators.required],
+      lastName: ['', Validators.required],
+      email: ['', [Validators.required, Validators.email]],
+      phoneNumber: ['']
+    });
+  }
+
+  ngOnDestroy() {
+    this.slotHoldsService.releaseHold();
+  }
+
+  get slotsNeeded(): number {
+    return this.selectedType ? getSlotsNeeded(this.selectedType.durationMinutes) : 1;
+  }
+
+  get slotProviderName(): string | null {
+    return this.providers.find(provider => provider.providerId === this.slotProviderId)?.name ?? null;
+  }
+
+  onSearchInput(event: Event) {
+    this.search = (event.target as HTMLInputElement).value;
+  }
+
+  async searchPatients() {
+    if (this.searching) {
+      return;
+    }
+
+    this.searching = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.results = await this.patientsService.searchPatients(this.search);
+    } catch (error) {
+      console.error('❌ StaffBooking: Error searching patients:', error);
+      this.showError('Unable to search patients.');
+    } finally {
+      this.searching = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  selectPatient(patient: UserProfile) {
+    this.patient = patient;
+    this.results = [];
+    this.showNewPatientForm = false;
+  }
+
+  changePatient() {
+    this.patient = null;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
+  toggleNewPatientForm() {
+    this.showNewPatientForm = !this.showNewPatientForm;
+  }
+
+  async onCreatePatient() {
+    if (this.patientForm.invalid || this.savingPatient) {
+      this.patientForm.markAllAsTouched();
+      return;
+    }
+
+    this.savingPatient = true;
+    this.cdr.detectChanges();
+
+    const result = await this.patientsService.createPatient(this.patientForm.value);
+
+    this.savingPatient = false;
+    if (result.success) {
+      this.patientForm.reset({ firstName: '', lastName: '', email: '', phoneNumber: '' });
+      this.selectPatient(result.profile!);
+    } else {
+      this.showError(result.error || 'Unable to add this patient.');
+    }
+    this.cdr.detectChanges();
+  }
+
+  isInvalid(field: string): boolean {
+    const control = this.patientForm.get(field);
+    return !!control && control.invalid && control.touched;
+  }
+
+  onTypeSelected(type: AppointmentType): void {
+    if (type.typeId === this.selectedType?.typeId) {
+      return;
+    }
+
+    this.selectedType = type;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
+  onProviderSelected(selection: ProviderSelection): void {
+    const providerIds = selection.providers.map(provider => provider.providerId);
+    if (selection.providerId === this.selectedProviderId && providerIds.join() === this.providerIds.join()) {
+      return;
+    }
+
+    this.selectedProviderId = selection.providerId;
+    this.providers = selection.providers;
+    this.providerIds = providerIds;
+    this.selectedDate = null;
+    this.selectedDateId = null;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
+  onDateSelected(event: DateSelectedEvent): void {
+    this.selectedDate = event.date;
+    this.selectedDateId = event.dateId;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
+  onTimeSelected(event: TimeSelectedEvent | null): void {
+    if (event) {
+      this.selectedTime = event.time;
+      this.selectedTimeId = event.timeId;
+      this.slotProviderId = event.providerId ?? null;
+      this.bookingAttemptKey = null;
+      this.holdSelectedSlot(event.timeIds);
+    } else {
+      this.selectedTime = null;
+      this.selectedTimeId = null;
+      this.releaseHold();
+    }
+  }
+
+  /**
+   * Hold the slot while staff confirm the details with the patient on the phone
+   */
+  private async holdSelectedSlot(timeIds: string[]) {
+    const dateId = this.selectedDateId;
+    const timeId = this.selectedTimeId;
+    if (!dateId || !timeId) {
+      return;
+    }
+
+    const result = await this.slotHoldsService.holdSlot(dateId, timeIds, this.slotProviderId ?? undefined);
+
+    // Ignore stale results if the selection changed while the hold was in flight
+    if (dateId !== this.selectedDateId || timeId !== this.selectedTimeId) {
+      return;
+    }
+
+    if (result.success) {
+      this.holdExpiresAt = result.hold!.expiresAt;
+    } else {
+      this.holdExpiresAt = null;
+      this.selectedTime = null;
+      this.selectedTimeId = null;
+      this.showError(result.error || 'Unable to hold this time slot. Please pick another time.');
+    }
+    this.cdr.detectChanges();
+  }
+
+  private releaseHold() {
+    this.holdExpiresAt = null;
+    this.slotProviderId = null;
+    this.bookingAttemptKey = null;
+    this.slotHoldsService.releaseHold();
+  }
+
+  async bookAppointment() {
+    if (!this.patient || !this.selectedType || !this.selectedDateId || !this.selectedTimeId || this.isBooking) {
+      return;
+    }
+
+    this.isBooking = true;
+    this.bookingAttemptKey ??= crypto.randomUUID();
+    this.cdr.detectChanges();
+
+    try {
+      const result = await this.appointmentsService.bookAppointment(this.selectedDateId, this.selectedTimeId, {
+        typeId: this.selectedType.typeId,
+        providerId: this.slotProviderId ?? undefined,
+        idempotencyKey: this.bookingAttemptKey,
+        patientId: this.patient.uid
+      });
+
+      if (result.success) {
+        this.holdExpiresAt = null;
+        this.bookingAttemptKey = null;
+
+        const withText = this.slotProviderName ? ` with ${this.slotProviderName}` : '';
+        this.successMessage = `${this.patient.firstName} ${this.patient.lastName} is booked in for a ${this.selectedType.name}${withText}.\n\nDate: ${this.selectedDate?.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}\nTime: ${this.selectedTime}`;
+        this.showSuccessModal = true;
+      } else {
+        this.showError(result.error || 'Unable to book appointment. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error booking appointment for patient:', error);
+      this.showError('An unexpected error occurred. Please try again later.');
+    } finally {
+      this.isBooking = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onSuccessModalProceed() {
+    // Ready for the next caller
+    this.showSuccessModal = false;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.changePatient();
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
+}
@@ -1,32 +1,68 @@
-import { Component, inject, OnInit, ChangeDetectorRef } from '@angular/core';
+import { Component, inject, OnInit, OnDestroy, ChangeDetectorRef } from '@angular/core';
 import { DateSelector } from '../components/date-selector/date-selector';
 import { TimeSelector } from '../components/time-selector/time-selector';
 import { DatePipe } from '@angular/common';
 import { BackButton } from '../../../shared/back-button/back-button';
 import { AppointmentSummary } from '../components/appointment-summary/appointment-summary';
-import { AppointmentsService } from '../../../services/appointments.service';
+import { AppointmentsService, SeriesOccurrence } from '../../../services/appointments.service';
+import { SlotHoldsService } from '../../../services/slot-holds.service';
+import { WaitlistService } from '../../../services/waitlist.service';
 import { Router, ActivatedRoute } from '@angular/router';
-import { DateSelectedEvent, TimeSelectedEvent } from '../../../models/booking.types';
+import { DateSelectedEvent, FullyBookedDateEvent, ProviderSelection, TimeSelectedEvent, WaitlistRequest } from '../../../models/booking.types';
 import { SuccessModalComponent } from '../../../shared/success-modal/success-modal';
 import { ErrorModalComponent } from '../../../shared/error-modal/error-modal';
+import { WaitlistPrompt } from '../components/waitlist-prompt/waitlist-prompt';
+import { SeriesPreviewModal } from '../components/series-preview-modal/series-preview-modal';
+import { RecurrenceRule } from '../../../utils/recurrence';
+import { AppointmentTypeSelector } from '../components/appointment-type-selector/appointment-type-selector';
+import { AppointmentType, getSlotsNeeded } from '../../../utils/appointment-types';
+import { ProviderSelector } from '../components/provider-selector/provider-selector';
+import { Provider } from '../../../services/providers.service';
+import { getSlotStart, parseDisplayTime } from '../../../utils/slot-time';
+import { CLINIC_TIME_ZONE, formatTimeInZone, getTimeZoneName, getUserTimeZone, sharesClinicTime } from '../../../utils/clinic-time';
 
 @Component({
   selector: 'app-book-appointment',
-  imports: [DateSelector, TimeSelector, BackButton, AppointmentSummary, SuccessModalComponent, ErrorModalComponent],
+  imports: [DateSelector, TimeSelector, BackButton, AppointmentSummary, SuccessModalComponent, ErrorModalComponent, WaitlistPrompt, SeriesPreviewModal, AppointmentTypeSelector, ProviderSelector],
   templateUrl: './book-appointment.html',
   styleUrl: './book-appointment.scss'
 })
-export class BookAppointment implements OnInit {
+export class BookAppointment implements OnInit, OnDestroy {
   private appointmentsService = inject(AppointmentsService);
+  private slotHoldsService = inject(SlotHoldsService);
+  private waitlistService = inject(WaitlistService);
   private router = inject(Router);
   private route = inject(ActivatedRoute);
   private cdr = inject(ChangeDetectorRef);
 
+  // The type is chosen first - it decides how many consecutive slots a start time needs
+  selectedType: AppointmentType | null = null;
+  
+  // Chosen provider (null = any available) and the schedules the calendar combines
+  selectedProviderId: string | null = null;
+  providers: Provider[] = [];
+  providerIds: string[] = [];
+  // Provider whose seat the selected time is on (with "any available" this is decided by the time)
+  slotProviderId: string | null = null;
+  
   selectedDate: Date | null = null;
   selectedDateId: string | null = null;
   selectedTime: string | null = null;
   selectedTimeId: string | null = null;
   isBooking = false;
+  holdExpiresAt: Date | null = null;
+  // Idempotency key for the current booking attempt - reused when the patient retries
+  // the same selection, so a booking that went through before a network error isn't made twice
+  private bookingAttemptKey: string | null = null;
+  
+  // Fully booked date the patient clicked (shows the waitlist prompt)
+  waitlistDate: FullyBookedDateEvent | null = null;
+  isJoiningWaitlist = false;
+  
+  // Recurring series - occurrences are previewed before anything is booked
+  recurrence: RecurrenceRule | null = null;
+  seriesOccurrences: SeriesOccurrence[] = [];
+  showSeriesPreview = false;
   
   // Modal states
   showSuccessModal = false;
@@ -38,27 +74,168 @@ export class BookAppointment implements OnInit {
     // Data is pre-fetched by resolvers for SSR
   }
 
+  ngOnDestroy() {
+    // Leaving the page gives the slot back straight away instead of waiting for expiry
+    this.slotHoldsService.releaseHold();
+  }
+
+  get slotsNeeded(): number {
+    return this.selectedType ? getSlotsNeeded(this.selectedType.durationMinutes) : 1;
+  }
+
+  onTypeSelected(type: AppointmentType): void {
+    if (type.typeId === this.selectedType?.typeId) {
+      return;
+    }
+
+    this.selectedType = type;
+
+    // A start time that fit the old type may not fit the new one
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
+  get slotProviderName(): string | null {
+    return this.providers.find(provider => provider.providerId === this.slotProviderId)?.name ?? null;
+  }
+
+  onProviderSelected(selection: ProviderSelection): void {
+    const providerIds = selection.providers.map(provider => provider.providerId);
+    if (selection.providerId === this.selectedProviderId && providerIds.join() === this.providerIds.join()) {
+      return;
+    }
+
+    this.selectedProviderId = selection.providerId;
+    this.providers = selection.providers;
+    this.providerIds = providerIds;
+
+    // The calendar picks a default date again for the new schedules
+    this.selectedDate = null;
+    this.selectedDateId = null;
+    this.waitlistDate = null;
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+    this.releaseHold();
+  }
+
   onDateSelected(event: DateSelectedEvent): void {
     this.selectedDate = event.date;
     this.selectedDateId = event.dateId;
+    this.waitlistDate = null;
     
     // Reset time selection when date changes
     this.selectedTime = null;
     this.selectedTimeId = null;
+    this.releaseHold();
   }
 
   onTimeSelected(event: TimeSelectedEvent | null): void {
     if (event) {
       this.selectedTime = event.time;
       this.selectedTimeId = event.timeId;
+      this.slotProviderId = event.providerId ?? null;
+      this.bookingAttemptKey = null;
+      this.holdSelectedSlot(event.timeIds);
     } else {
       this.selectedTime = null;
       this.selectedTimeId = null;
+      this.releaseHold();
     }
   }
 
+  /**
+   * Hold the chosen slot so nobody else can take it while the patient reviews the summary
+   */
+  private async holdSelectedSlot(timeIds: string[]) {
+    const dateId = this.selectedDateId;
+    const timeId = this.selectedTimeId;
+    if (!dateId || !timeId) {
+      return;
+    }
+
+    const result = await this.slotHoldsService.holdSlot(dateId, timeIds, this.slotProviderId ?? undefined);
+
+    // Ignore stale results if the selection changed while the hold was in flight
+    if (dateId !== this.selectedDateId || timeId !== this.selectedTimeId) {
+      return;
+    }
+
+    if (result.success) {
+      this.holdExpiresAt = result.hold!.expiresAt;
+    } else {
+      this.holdExpiresAt = null;
+      this.selectedTime = null;
+      this.selectedTimeId = null;
+      this.errorMessage = result.error || 'Unable to hold this time slot. Please pick another time.';
+      this.showErrorModal = true;
+    }
+    this.cdr.detectChanges();
+  }
+
+  private releaseHold() {
+    this.holdExpiresAt = null;
+    this.slotProviderId = null;
+    this.bookingAttemptKey = null;
+    this.slotHoldsService.releaseHold();
+  }
+
+  onFullyBookedDateSelected(event: FullyBookedDateEvent): void {
+    this.waitlistDate = event;
+  }
+
+  onWaitlistDismiss(): void {
+    this.waitlistDate = null;
+  }
+
+  async joinWaitlist(request: WaitlistRequest) {
+    if (this.isJoiningWaitlist) {
+      return;
+    }
+
+    this.isJoiningWaitlist = true;
+
+    try {
+      const result = await this.waitlistService.joinWaitlist(request.dateId, request.timeId, this.selectedProviderId);
+
+      if (result.success) {
+        const dateText = this.waitlistDate?.date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+        this.successMessage = `You're on the waitlist!\n\nDate: ${dateText}\nTime: ${request.time ?? 'Any time'}\n\nWe'll hold the first seat that opens up for you.`;
+        this.showSuccessModal = true;
+        this.waitlistDate = null;
+      } else {
+        this.errorMessage = result.error || 'Unable to join the waitlist. Please try again.';
+        this.showErrorModal = true;
+      }
+    } finally {
+      this.isJoiningWaitlist = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onRecurrenceChange(rule: RecurrenceRule | null): void {
+    this.recurrence = rule;
+    // A series is a different attempt from a single booking of the same slot
+    this.bookingAttemptKey = null;
+  }
+
+  /**
+   * The slot time as the clinic writes it, plus the patient's own time when their zone differs
+   */
+  private describeTime(dateId: string, time: string): string {
+    const start = getSlotStart(dateId, parseDisplayTime(time));
+    const userTimeZone = getUserTimeZone();
+    if (sharesClinicTime(start, userTimeZone)) {
+      return time;
+    }
+
+    return `${time} clinic time (${getTimeZoneName(start, CLINIC_TIME_ZONE)})\n` +
+      `Your time: ${formatTimeInZone(start, userTimeZone, dateId)} (${getTimeZoneName(start, userTimeZone)})`;
+  }
+
   canProceed(): boolean {
-    return this.selectedDate !== null && 
+    return this.selectedType !== null &&
+           this.selectedDate !== null && 
            this.selectedDateId !== null && 
            this.selectedTime !== null && 
            this.selectedTimeId !== null;
@@ -69,17 +246,33 @@ export class BookAppointment implements OnInit {
       return;
     }
 
+    if (this.recurrence) {
+      await this.reviewSeries();
+      return;
+    }
+
     this.isBooking = true;
+    this.bookingAttemptKey ??= crypto.randomUUID();
 
     try {
       const result = await this.appointmentsService.bookAppointment(
         this.selectedDateId!,
-        this.selectedTimeId!
+        this.selectedTimeId!,
+        {
+          typeId: this.selectedType!.typeId,
+          providerId: this.slotProviderId ?? undefined,
+          idempotencyKey: this.bookingAttemptKey
+        }
       );
 
       if (result.success) {
+        // The hold was turned into the booking
+        this.holdExpiresAt = null;
+        this.bookingAttemptKey = null;
+        
         // Show success modal
-        this.successMessage = `Your appointment has been successfully booked!\n\nDate: ${this.selectedDate?.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}\nTime: ${this.selectedTime}`;
+        const withText = this.slotProviderName ? ` with ${this.slotProviderName}` : '';
+        this.successMessage = `Your ${this.selectedType!.name}${withText} has been successfully booked!\n\nDate: ${this.selectedDate?.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}\nTime: ${this.describeTime(this.selectedDateId!, this.selectedTime!)}`;
         this.showSuccessModal = true;
         // Manually trigger change detection to show modal immediately
         this.cdr.detectChanges();
@@ -100,6 +293,83 @@ export class BookAppointment implements OnInit {
     }
   }
   
+  /**
+   * Check every date in the series so the patient can see what will be booked
+   */
+  private async reviewSeries() {
+    this.isBooking = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.seriesOccurrences = await this.appointmentsService.previewSeries(
+        this.selectedDateId!,
+        this.selectedTimeId!,
+        this.recurrence!,
+        { typeId: this.selectedType!.typeId, providerId: this.slotProviderId ?? undefined }
+      );
+      this.showSeriesPreview = true;
+    } catch (error) {
+      console.error('Error previewing appointment series:', error);
+      this.errorMessage = 'Unable to check availability for this series. Please try again.';
+      this.showErrorModal = true;
+    } finally {
+      this.isBooking = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async onConfirmSeries(dateIds: string[]) {
+    if (this.isBooking || !this.recurrence) {
+      return;
+    }
+
+    this.isBooking = true;
+    this.bookingAttemptKey ??= crypto.randomUUID();
+    this.cdr.detectChanges();
+
+    try {
+      const result = await this.appointmentsService.bookSeries(
+        this.selectedTimeId!,
+        dateIds,
+        this.recurrence,
+        {
+          typeId: this.selectedType!.typeId,
+          providerId: this.slotProviderId ?? undefined,
+          idempotencyKey: this.bookingAttemptKey
+        }
+      );
+      this.showSeriesPreview = false;
+
+      if (result.success) {
+        this.holdExpiresAt = null;
+        this.bookingAttemptKey = null;
+
+        const weeks = this.recurrence.intervalWeeks;
+        const dates = this.seriesOccurrences
+          .filter(occurrence => dateIds.includes(occurrence.dateId))
+          .map(occurrence => occurrence.date)
+          .join('\n');
+        this.successMessage = `${dateIds.length} appointments have been booked at ${this.describeTime(this.selectedDateId!, this.selectedTime!)}\nevery ${weeks === 1 ? 'week' : weeks + ' weeks'}:\n\n${dates}`;
+        this.showSuccessModal = true;
+      } else {
+        this.errorMessage = result.error || 'Unable to book this series. Please try again.';
+        this.showErrorModal = true;
+      }
+    } finally {
+      this.isBooking = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onCancelSeriesPreview() {
+    if (this.isBooking) {
+      return;
+    }
+
+    this.showSeriesPreview = false;
+    this.seriesOccurrences = [];
+  }
+  
   onSuccessModalProceed() {
     this.showSuccessModal = false;
     // Navigate to appointments list
@@ -1,27 +1,98 @@
-import { Component, Input, Output, EventEmitter } from '@angular/core';
-import { DatePipe } from '@angular/common';
+import { Component, Input, Output, EventEmitter, OnChanges, OnDestroy, SimpleChanges, inject, PLATFORM_ID, ChangeDetectorRef } from '@angular/core';
+import { DatePipe, isPlatformBrowser } from '@angular/common';
+import { RecurrenceOptions } from '../recurrence-options/recurrence-options';
+import { RecurrenceRule } from '../../../../utils/recurrence';
+import { AppointmentType } from '../../../../utils/appointment-types';
 
 @Component({
   selector: 'appointment-summary',
-  imports: [DatePipe],
+  imports: [DatePipe, RecurrenceOptions],
   templateUrl: './appointment-summary.html',
   styleUrl: './appointment-summary.scss'
 })
-export class AppointmentSummary {
+export class AppointmentSummary implements OnChanges, OnDestroy {
+  private platformId = inject(PLATFORM_ID);
+  private cdr = inject(ChangeDetectorRef);
 
   @Input() selectedDate: Date | null = null;
   @Input() selectedTime: string | null = null;
+  @Input() appointmentType: AppointmentType | null = null;
+  @Input() providerName: string | null = null;
   @Input() isBooking = false;
+  @Input() holdExpiresAt: Date | null = null;
+  @Input() recurrence: RecurrenceRule | null = null;
+  @Input() allowRecurrence = true; // staff booking for a patient books one visit at a time
   @Output() book = new EventEmitter<void>();
+  @Output() recurrenceChange = new EventEmitter<RecurrenceRule | null>();
+
+  remainingSeconds = 0;
+  private countdownInterval: any = null;
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['holdExpiresAt']) {
+      this.startCountdown();
+    }
+  }
+
+  ngOnDestroy() {
+    this.stopCountdown();
+  }
+
+  get countdownText(): string {
+    const minutes = Math.floor(this.remainingSeconds / 60);
+    const seconds = this.remainingSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
 
   canProceed(): boolean {
     return !!(this.selectedDate && this.selectedTime) && !this.isBooking;
   }
 
+  get bookButtonText(): string {
+    if (this.isBooking) {
+      return 'Booking...';
+    }
+    if (!this.canProceed()) {
+      return 'Select Date & Time';
+    }
+    return this.recurrence ? 'Review Dates' : 'Book Appointment';
+  }
+
   onBookAppointment() {
     if (this.canProceed()) {
       this.book.emit();
     }
   }
 
+  private startCountdown() {
+    this.stopCountdown();
+
+    if (!this.holdExpiresAt || !isPlatformBrowser(this.platformId)) {
+      this.remainingSeconds = 0;
+      return;
+    }
+
+    this.tick();
+    this.countdownInterval = setInterval(() => this.tick(), 1000);
+  }
+
+  private tick() {
+    const msLeft = (this.holdExpiresAt?.getTime() ?? 0) - Date.now();
+    this.remainingSeconds = Math.max(0, Math.ceil(msLeft / 1000));
+
+    if (this.remainingSeconds === 0) {
+      this.stopCountdown();
+    }
+
+    // Zoneless - interval callbacks don't trigger change detection on their own
+    this.cdr.markForCheck();
+  }
+
+  private stopCountdown() {
+    if (this.countdownInterval) {
+      clearInterval(this.countdownInterval);
+      this.countdownInterval = null;
+    }
+  }
+
 }
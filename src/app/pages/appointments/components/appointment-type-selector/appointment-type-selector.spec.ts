@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AppointmentTypeSelector } from './appointment-type-selector';
+
+describe('AppointmentTypeSelector', () => {
+  let component: AppointmentTypeSelector;
+  let fixture: ComponentFixture<AppointmentTypeSelector>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [AppointmentTypeSelector]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AppointmentTypeSelector);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,35 @@
+import { Component, Input, Output, EventEmitter, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { AppointmentsService } from '../../../../services/appointments.service';
+import { AppointmentType } from '../../../../utils/appointment-types';
+
+@Component({
+  selector: 'appointment-type-selector',
+  imports: [],
+  templateUrl: './appointment-type-selector.html',
+  styleUrl: './appointment-type-selector.scss'
+})
+export class AppointmentTypeSelector implements OnInit {
+  @Input() selectedTypeId: string | null = null;
+  @Output() typeSelected = new EventEmitter<AppointmentType>();
+
+  private appointmentsService = inject(AppointmentsService);
+  private cdr = inject(ChangeDetectorRef);
+
+  types: AppointmentType[] = [];
+  loading = true;
+
+  async ngOnInit() {
+    try {
+      this.types = await this.appointmentsService.getAppointmentTypes();
+    } catch (error) {
+      console.error('Error loading appointment types:', error);
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onSelect(type: AppointmentType) {
+    this.typeSelected.emit(type);
+  }
+}
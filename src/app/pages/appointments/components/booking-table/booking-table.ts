@@ -1,46 +1,117 @@
-import { Component, ViewChild, AfterViewInit, OnInit, OnDestroy, inject, Output, EventEmitter, ChangeDetectorRef } from '@angular/core';
+import { Component, ViewChild, OnInit, OnDestroy, inject, Output, EventEmitter, ChangeDetectorRef } from '@angular/core';
 import { MatTableModule, MatTableDataSource } from '@angular/material/table';
 import { MatPaginatorModule, MatPaginator } from '@angular/material/paginator';
-import { TitleCasePipe } from '@angular/common';
+import { MatSortModule, MatSort } from '@angular/material/sort';
+import { DatePipe } from '@angular/common';
 import { AppointmentsService, Appointment } from '../../../../services/appointments.service';
 import { Router, NavigationEnd } from '@angular/router';
 import { filter, Subject, takeUntil } from 'rxjs';
 import { ConfirmationModalComponent } from '../../../../shared/confirmation-modal/confirmation-modal';
 import { SuccessModalComponent } from '../../../../shared/success-modal/success-modal';
 import { ErrorModalComponent } from '../../../../shared/error-modal/error-modal';
+import { RescheduleModal } from '../reschedule-modal/reschedule-modal';
+import { RescheduleSelection } from '../../../../models/booking.types';
+import { AppointmentStatus, STATUS_LABELS, isChangeableStatus } from '../../../../utils/appointment-status';
+import { getClinicDateId } from '../../../../utils/clinic-time';
+import { HistoryFilter, HistoryView, getHistorySortValue, isHistorySortColumn, matchesHistoryFilter } from '../../../../utils/appointment-history';
 
 @Component({
   selector: 'booking-table',
-  imports: [MatTableModule, MatPaginatorModule, TitleCasePipe, ConfirmationModalComponent, SuccessModalComponent, ErrorModalComponent],
+  imports: [MatTableModule, MatPaginatorModule, MatSortModule, DatePipe, ConfirmationModalComponent, SuccessModalComponent, ErrorModalComponent, RescheduleModal],
   templateUrl: './booking-table.html',
   styleUrl: './booking-table.scss'
 })
-export class BookingTable implements OnInit, AfterViewInit, OnDestroy {
+export class BookingTable implements OnInit, OnDestroy {
   private appointmentsService = inject(AppointmentsService);
   private cdr = inject(ChangeDetectorRef);
   private router = inject(Router);
   private destroy$ = new Subject<void>();
 
-  displayedColumns: string[] = ['date', 'time', 'status', 'actions'];
   dataSource = new MatTableDataSource<Appointment>([]);
   loading = true;
 
-  @ViewChild(MatPaginator) paginator!: MatPaginator;
+  // History mode - everything is loaded once and filtered client-side
+  private allAppointments: Appointment[] = [];
+  view: HistoryView = 'upcoming';
+  fromDateId: string | null = null;
+  toDateId: string | null = null;
+  readonly views: { value: HistoryView; label: string }[] = [
+    { value: 'upcoming', label: 'Upcoming' },
+    { value: 'past', label: 'Past' },
+    { value: 'cancelled', label: 'Cancelled' }
+  ];
+
+
+  // The table only renders once loaded, so attach paginator and sort when they appear
+  paginator: MatPaginator | null = null;
+
+  @ViewChild(MatPaginator) set matPaginator(paginator: MatPaginator | undefined) {
+    this.paginator = paginator ?? null;
+    this.dataSource.paginator = this.paginator;
+  }
+
+  @ViewChild(MatSort) set matSort(sort: MatSort | undefined) {
+    this.dataSource.sort = sort ?? null;
+  }
+
+  constructor() {
+    this.dataSource.sortingDataAccessor = (appointment, column) =>
+      isHistorySortColumn(column) ? getHistorySortValue(appointment, column) : '';
+  }
+
+  get displayedColumns(): string[] {
+    switch (this.view) {
+      case 'upcoming':
+        return ['date', 'time', 'status', 'actions'];
+      case 'past':
+        return ['date', 'time', 'status'];
+      case 'cancelled':
+        return ['date', 'time', 'cancelledAt'];
+    }
+  }
+
+  get emptyMessage(): string {
+    switch (this.view) {
+      case 'upcoming':
+        return 'No upcoming appointments';
+      case 'past':
+        return 'No past visits yet';
+      case 'cancelled':
+        return 'No cancelled appointments';
+    }
+  }
   @Output() appointmentSelected = new EventEmitter<Appointment>();
 
   // Modal states
   showConfirmationModal = false;
   showSuccessModal = false;
   showErrorModal = false;
+  showRescheduleModal = false;
   
   // Modal messages
   confirmationTitle = '';
   confirmationMessage = '';
+  confirmationConfirmText = 'Yes, Cancel';
+  confirmationSecondaryText: string | null = null;
   successMessage = '';
   errorMessage = '';
   
   // Appointment being cancelled
   appointmentToCancel: Appointment | null = null;
+  cancellationReason = '';
+
+  // Appointment being rescheduled
+  appointmentToReschedule: Appointment | null = null;
+  isRescheduling = false;
+
+  statusLabel(status: AppointmentStatus): string {
+    return STATUS_LABELS[status];
+  }
+
+  // Cancel and reschedule stay available until the patient checks in
+  isChangeable(status: AppointmentStatus): boolean {
+    return isChangeableStatus(status);
+  }
 
   ngOnInit() {
     console.log('🎬 BookingTable: ngOnInit called');
@@ -61,10 +132,6 @@ export class BookingTable implements OnInit, AfterViewInit, OnDestroy {
       });
   }
 
-  ngAfterViewInit() {
-    this.dataSource.paginator = this.paginator;
-  }
-
   ngOnDestroy() {
     this.destroy$.next();
     this.destroy$.complete();
@@ -73,50 +140,81 @@ export class BookingTable implements OnInit, AfterViewInit, OnDestroy {
   loadAppointments() {
     console.log('🔄 BookingTable: loadAppointments started');
     this.loading = true;
-    console.log('⏳ BookingTable: Loading set to true');
     this.cdr.markForCheck();
     
-    this.appointmentsService.getUserAppointments().then(appointments => {
-      console.log('📬 BookingTable: Received appointments:', appointments);
-      console.log('📊 BookingTable: Appointments count:', appointments.length);
-      
-      // Filter for upcoming appointments (today and future)
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayStr = today.toISOString().split('T')[0];
-      console.log('📅 BookingTable: Today\'s date (for filtering):', todayStr);
-      
-      const upcomingAppointments = appointments.filter(apt => {
-        const isUpcoming = apt.date >= todayStr;
-        console.log(`🗓️ BookingTable: Appointment ${apt.appointmentId} (${apt.date}) - Upcoming: ${isUpcoming}`);
-        return isUpcoming;
-      });
+    this.appointmentsService.getAppointmentHistory().then(appointments => {
+      console.log('📬 BookingTable: Received appointments:', appointments.length);
       
-      console.log('🎯 BookingTable: Upcoming appointments:', upcomingAppointments);
-      console.log('📊 BookingTable: Upcoming count:', upcomingAppointments.length);
-      
-      // Update data source and loading state
-      this.dataSource.data = upcomingAppointments;
+      this.allAppointments = appointments;
+      this.applyFilters();
       this.loading = false;
-      console.log('✅ BookingTable: DataSource updated with', this.dataSource.data.length, 'appointments');
-      console.log('🏁 BookingTable: Loading set to false');
       
       // Explicitly trigger change detection
       this.cdr.detectChanges();
-      console.log('🔔 BookingTable: Change detection triggered');
     }).catch(error => {
       console.error('❌ BookingTable: Error loading appointments:', error);
       this.loading = false;
-      console.log('🚫 BookingTable: Loading set to false (error)');
       this.cdr.detectChanges();
     });
   }
 
+  /**
+   * Show the rows for the current view and date range
+   */
+  applyFilters() {
+    // Appointment dates are clinic dates, so compare against the clinic's today
+    const todayId = getClinicDateId();
+
+    const filter: HistoryFilter = { view: this.view, fromDateId: this.fromDateId, toDateId: this.toDateId };
+    this.dataSource.data = this.allAppointments.filter(apt => matchesHistoryFilter(apt, filter, todayId));
+    this.paginator?.firstPage();
+    console.log(`🎯 BookingTable: ${this.dataSource.data.length} ${this.view} appointments`);
+  }
+
+  setView(view: HistoryView) {
+    if (view === this.view) return;
+
+    this.view = view;
+    this.applyFilters();
+    this.cdr.detectChanges();
+  }
+
+  onFromDateChange(event: Event) {
+    this.fromDateId = (event.target as HTMLInputElement).value || null;
+    this.applyFilters();
+    this.cdr.detectChanges();
+  }
+
+  onToDateChange(event: Event) {
+    this.toDateId = (event.target as HTMLInputElement).value || null;
+    this.applyFilters();
+    this.cdr.detectChanges();
+  }
+
+  clearDateRange() {
+    this.fromDateId = null;
+    this.toDateId = null;
+    this.applyFilters();
+    this.cdr.detectChanges();
+  }
+
   cancelAppointment(appointment: Appointment) {
     // Show confirmation modal
     this.appointmentToCancel = appointment;
-    this.confirmationTitle = 'Cancel Appointment?';
-    this.confirmationMessage = `Are you sure you want to cancel your appointment on ${appointment.date} at ${appointment.time}?\n\nThis action cannot be undone.`;
+
+    if (appointment.seriesId) {
+      // Recurring bookings can be cancelled one at a time or from here onwards
+      this.confirmationTitle = 'Cancel Recurring Appointment?';
+      this.confirmationMessage = `Your appointment on ${appointment.date} at ${appointment.time} is part of a series.\n\nCancel only this visit, or this and all following visits?`;
+      this.confirmationConfirmText = 'Only This One';
+      this.confirmationSecondaryText = 'This & Following';
+    } else {
+      this.confirmationTitle = 'Cancel Appointment?';
+      this.confirmationMessage = `Are you sure you want to cancel your appointment on ${appointment.date} at ${appointment.time}?\n\nThis action cannot be undone.`;
+      this.confirmationConfirmText = 'Yes, Cancel';
+      this.confirmationSecondaryText = null;
+    }
+    this.cancellationReason = '';
     this.showConfirmationModal = true;
     this.cdr.detectChanges();
   }
@@ -129,7 +227,7 @@ export class BookingTable implements OnInit, AfterViewInit, OnDestroy {
     this.cdr.detectChanges();
     
     // Perform cancellation
-    this.appointmentsService.cancelAppointment(this.appointmentToCancel.appointmentId).then(result => {
+    this.appointmentsService.cancelAppointment(this.appointmentToCancel.appointmentId, this.cancellationReason).then(result => {
       if (result.success) {
         // Show success modal
         this.successMessage = `Your appointment on ${this.appointmentToCancel!.date} at ${this.appointmentToCancel!.time} has been cancelled successfully.`;
@@ -160,10 +258,96 @@ export class BookingTable implements OnInit, AfterViewInit, OnDestroy {
     });
   }
 
+  onConfirmCancelFollowing() {
+    if (!this.appointmentToCancel) return;
+
+    const appointment = this.appointmentToCancel;
+    this.showConfirmationModal = false;
+    this.appointmentToCancel = null;
+    this.cdr.detectChanges();
+
+    this.appointmentsService.cancelSeriesFrom(appointment.appointmentId, this.cancellationReason).then(result => {
+      if (result.success) {
+        this.successMessage = `${result.cancelledCount} appointments from ${appointment.date} onwards have been cancelled successfully.`;
+        this.showSuccessModal = true;
+        this.cdr.detectChanges();
+
+        // Reload appointments
+        this.loadAppointments();
+      } else {
+        this.errorMessage = result.error || 'Failed to cancel appointments. Please try again.';
+        this.showErrorModal = true;
+        this.cdr.detectChanges();
+      }
+    }).catch(error => {
+      console.error('Error cancelling appointment series:', error);
+
+      this.errorMessage = 'Failed to cancel appointments. Please try again.';
+      this.showErrorModal = true;
+      this.cdr.detectChanges();
+    });
+  }
+
   onCancelCancel() {
     // User clicked cancel, just close the modal
     this.showConfirmationModal = false;
     this.appointmentToCancel = null;
+    this.cancellationReason = '';
+    this.cdr.detectChanges();
+  }
+
+  rescheduleAppointment(appointment: Appointment) {
+    this.appointmentToReschedule = appointment;
+    this.showRescheduleModal = true;
+    this.cdr.detectChanges();
+  }
+
+  onConfirmReschedule(selection: RescheduleSelection) {
+    if (!this.appointmentToReschedule || this.isRescheduling) return;
+
+    const original = this.appointmentToReschedule;
+    this.isRescheduling = true;
+    this.cdr.detectChanges();
+
+    this.appointmentsService.rescheduleAppointment(
+      original.appointmentId,
+      selection.dateId,
+      selection.timeId
+    ).then(result => {
+      this.isRescheduling = false;
+      this.showRescheduleModal = false;
+      this.appointmentToReschedule = null;
+
+      if (result.success) {
+        this.successMessage = `Your appointment on ${original.date} at ${original.time} has been moved to ${selection.dateId} at ${selection.time}.`;
+        this.showSuccessModal = true;
+        this.cdr.detectChanges();
+
+        // Reload appointments
+        this.loadAppointments();
+      } else {
+        // Original appointment is untouched when the transaction fails
+        this.errorMessage = result.error || 'Failed to reschedule appointment. Please try again.';
+        this.showErrorModal = true;
+        this.cdr.detectChanges();
+      }
+    }).catch(error => {
+      console.error('Error rescheduling appointment:', error);
+
+      this.isRescheduling = false;
+      this.showRescheduleModal = false;
+      this.appointmentToReschedule = null;
+      this.errorMessage = 'Failed to reschedule appointment. Please try again.';
+      this.showErrorModal = true;
+      this.cdr.detectChanges();
+    });
+  }
+
+  onCancelReschedule() {
+    if (this.isRescheduling) return;
+
+    this.showRescheduleModal = false;
+    this.appointmentToReschedule = null;
     this.cdr.detectChanges();
   }
 
@@ -1,12 +1,17 @@
-import { Component, Output, EventEmitter, PLATFORM_ID, Inject, OnInit, inject, ViewEncapsulation } from '@angular/core';
+import { Component, Input, Output, EventEmitter, PLATFORM_ID, Inject, OnInit, OnChanges, OnDestroy, SimpleChanges, inject, ViewEncapsulation, ChangeDetectorRef } from '@angular/core';
 import { isPlatformBrowser, CommonModule } from '@angular/common';
 import { FullCalendarModule } from '@fullcalendar/angular';
 import { CalendarOptions, EventInput } from '@fullcalendar/core'; 
 import dayGridPlugin from '@fullcalendar/daygrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import { AppointmentsService, DateDoc } from '../../../../services/appointments.service';
-import { DateSelectedEvent } from '../../../../models/booking.types';
+import { ClosuresService } from '../../../../services/closures.service';
+import { DateSelectedEvent, FullyBookedDateEvent } from '../../../../models/booking.types';
 import { SkeletonLoader } from '../../../../shared/skeleton-loader/skeleton-loader';
+import { getTotalRemainingSeats, mergeDateDocs } from '../../../../utils/slot-capacity';
+import { getClinicDateId, getDateId, getDayFromDateId } from '../../../../utils/clinic-time';
+import { Closure, getClosureOn, getNextDateId } from '../../../../utils/closures';
+import { Observable, Subscription, combineLatest, map } from 'rxjs';
 
 @Component({
   selector: 'app-calendar',
@@ -15,41 +20,61 @@ import { SkeletonLoader } from '../../../../shared/skeleton-loader/skeleton-load
   imports: [FullCalendarModule, CommonModule, SkeletonLoader],
   encapsulation: ViewEncapsulation.None // Force styles to apply globally
 })
-export class CalendarComponent implements OnInit {
+export class CalendarComponent implements OnInit, OnChanges, OnDestroy {
+  // Schedules to combine - a date is open if any of these providers has a seat
+  // Empty = the shared clinic schedule
+  @Input() providerIds: string[] = [];
   @Output() dateSelected = new EventEmitter<DateSelectedEvent>();
+  @Output() fullyBookedDateSelected = new EventEmitter<FullyBookedDateEvent>();
   
   isBrowser: boolean;
   isLoadingCalendar = true; // Add loading state
   private appointmentsService = inject(AppointmentsService);
+  private closuresService = inject(ClosuresService);
+  private cdr = inject(ChangeDetectorRef);
+  private datesSubscription: Subscription | null = null;
   private dateAvailability: Map<string, DateDoc> = new Map();
+  private closures: Closure[] = [];
   selectedDateStr: string | null = null;
 
   constructor(@Inject(PLATFORM_ID) platformId: Object) {
     this.isBrowser = isPlatformBrowser(platformId);
   }
 
-  async ngOnInit() {
+  ngOnInit() {
     if (this.isBrowser) {
       this.isLoadingCalendar = true;
-      await this.loadDateAvailability();
-      // Set today as default selected date
-      this.selectTodayIfAvailable();
-      this.isLoadingCalendar = false;
+      this.watchDateAvailability();
     }
   }
 
+  ngOnChanges(changes: SimpleChanges) {
+    const change = changes['providerIds'];
+    if (!this.isBrowser || !change || change.firstChange) {
+      return;
+    }
+
+    // Same providers in a new array - nothing to re-watch
+    if ((change.previousValue ?? []).join() === this.providerIds.join()) {
+      return;
+    }
+
+    // Availability is about to change completely, so pick a default date again
+    this.isLoadingCalendar = true;
+    this.selectedDateStr = null;
+    this.watchDateAvailability();
+  }
+
+  ngOnDestroy() {
+    this.datesSubscription?.unsubscribe();
+  }
+
   private selectTodayIfAvailable() {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    // FIX: Use local date components to build dateStr
-    const year = today.getFullYear();
-    const month = today.getMonth() + 1;
-    const day = today.getDate();
-    const todayStr = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+    // Dates are clinic dates, so "today" is the clinic's today even for patients in other zones
+    const todayStr = getClinicDateId();
     
     console.log('🔍 Checking if today is available:', todayStr);
-    const todayDoc = this.dateAvailability.get(todayStr);
+    const todayDoc = getClosureOn(this.closures, todayStr) ? undefined : this.dateAvailability.get(todayStr);
     console.log('📄 Today document:', todayDoc);
     const availableCount = todayDoc?.availableTimeIds?.length ?? 0;
     console.log('📊 Available slots for today:', availableCount);
@@ -58,7 +83,7 @@ export class CalendarComponent implements OnInit {
       this.selectedDateStr = todayStr;
       console.log('🎯 Auto-selected today:', todayStr, 'with', availableCount, 'slots');
       this.dateSelected.emit({
-        date: today,
+        date: getDayFromDateId(todayStr),
         dateId: todayStr,
         availableCount: availableCount
       });
@@ -67,12 +92,12 @@ export class CalendarComponent implements OnInit {
       console.log('💡 You may need to re-run the seed script: npx tsx scripts/seed-slots.ts');
       
       // Try to find the next available date
-      const nextAvailable = this.findNextAvailableDate(today);
+      const nextAvailable = this.findNextAvailableDate(todayStr);
       if (nextAvailable) {
         console.log('✨ Auto-selecting next available date:', nextAvailable.dateId);
         this.selectedDateStr = nextAvailable.dateId;
         this.dateSelected.emit({
-          date: new Date(nextAvailable.dateId),
+          date: getDayFromDateId(nextAvailable.dateId),
           dateId: nextAvailable.dateId,
           availableCount: nextAvailable.availableCount
         });
@@ -80,47 +105,97 @@ export class CalendarComponent implements OnInit {
     }
   }
 
-  private findNextAvailableDate(startDate: Date): { dateId: string; availableCount: number } | null {
+  private findNextAvailableDate(startDateId: string): { dateId: string; availableCount: number } | null {
+    // Date IDs sort the same as the dates they name
     const dates = Array.from(this.dateAvailability.entries())
       .map(([dateId, doc]) => ({
         dateId,
-        date: new Date(dateId),
         availableCount: doc.availableTimeIds?.length ?? 0
       }))
-      .filter(d => d.date >= startDate && d.availableCount > 0)
-      .sort((a, b) => a.date.getTime() - b.date.getTime());
+      .filter(d => d.dateId >= startDateId && d.availableCount > 0 && !getClosureOn(this.closures, d.dateId))
+      .sort((a, b) => a.dateId.localeCompare(b.dateId));
     
     return dates.length > 0 ? dates[0] : null;
   }
 
-  private async loadDateAvailability() {
-    try {
-      console.log('🔄 Loading date availability from Firestore...');
-      const dates = await this.appointmentsService.getAllDates();
-      console.log('📊 Loaded dates:', dates.length);
-      
-      dates.forEach(dateDoc => {
-        this.dateAvailability.set(dateDoc.dateId, dateDoc);
-      });
-      
-      console.log('📋 Date availability map size:', this.dateAvailability.size);
-      console.log('📋 Sample dates:', Array.from(this.dateAvailability.keys()).slice(0, 5));
-      
-      // Update calendar with availability indicators
-      this.updateCalendarEvents();
-    } catch (error) {
-      console.error('❌ Error loading date availability:', error);
+  /**
+   * One stream of dates for the chosen providers, merged per dateId
+   */
+  private watchCombinedDates(): Observable<DateDoc[]> {
+    if (this.providerIds.length === 0) {
+      return this.appointmentsService.watchAllDates();
     }
+
+    return combineLatest(
+      this.providerIds.map(providerId => this.appointmentsService.watchAllDates(providerId))
+    ).pipe(
+      map(schedules => {
+        const byDate = new Map<string, DateDoc[]>();
+        schedules.flat().forEach(dateDoc => {
+          byDate.set(dateDoc.dateId, [...(byDate.get(dateDoc.dateId) ?? []), dateDoc]);
+        });
+        return Array.from(byDate.values()).map(mergeDateDocs);
+      })
+    );
+  }
+
+  /**
+   * Keep date availability and closures in sync with Firestore so fully booked and closed markers update live
+   */
+  private watchDateAvailability() {
+    console.log('🔄 Watching date availability in Firestore...', this.providerIds);
+    this.datesSubscription?.unsubscribe();
+    this.datesSubscription = combineLatest([this.watchCombinedDates(), this.closuresService.watchClosures()]).subscribe({
+      next: ([dates, closures]) => {
+        console.log('📊 Date availability snapshot:', dates.length, 'dates,', closures.length, 'closures');
+        
+        this.dateAvailability = new Map(dates.map(dateDoc => [dateDoc.dateId, dateDoc]));
+        this.closures = closures;
+        
+        // Update calendar with availability indicators
+        this.updateCalendarEvents();
+        
+        // First snapshot - set today as default selected date
+        if (this.isLoadingCalendar) {
+          this.selectTodayIfAvailable();
+          this.isLoadingCalendar = false;
+        }
+        
+        // Zoneless - snapshot callbacks don't trigger change detection on their own
+        this.cdr.detectChanges();
+      },
+      error: (error) => {
+        console.error('❌ Error loading date availability:', error);
+        this.isLoadingCalendar = false;
+        this.cdr.detectChanges();
+      }
+    });
   }
 
   private updateCalendarEvents() {
     const events: EventInput[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const todayId = getClinicDateId();
+
+    // Closed dates show the reason instead of their seats
+    this.closures
+      .filter(closure => closure.endDateId >= todayId)
+      .forEach(closure => {
+        events.push({
+          start: closure.startDateId,
+          end: getNextDateId(closure.endDateId),
+          display: 'background',
+          title: `Closed: ${closure.reason}`,
+          backgroundColor: 'transparent',
+          classNames: ['clinic-closed']
+        });
+      });
 
     this.dateAvailability.forEach((dateDoc) => {
-      const dateObj = new Date(dateDoc.date);
-      const isPast = dateObj < today;
+      if (getClosureOn(this.closures, dateDoc.dateId)) {
+        return;
+      }
+
+      const isPast = dateDoc.dateId < todayId;
       const availableCount = dateDoc.availableTimeIds?.length ?? 0; // Safe access with fallback
 
       if (!isPast) {
@@ -132,6 +207,16 @@ export class CalendarComponent implements OnInit {
             backgroundColor: '#fee2e2', // Light red
             classNames: ['fully-booked']
           });
+        } else {
+          // Seats remaining badge (a slot can hold more than one patient)
+          const seatsLeft = getTotalRemainingSeats(dateDoc);
+          events.push({
+            start: dateDoc.date,
+            display: 'background',
+            title: seatsLeft === 1 ? '1 seat' : `${seatsLeft} seats`,
+            backgroundColor: 'transparent',
+            classNames: ['seats-left']
+          });
         }
         // Removed low availability indicator (was yellow for 1-3 slots)
       }
@@ -156,34 +241,29 @@ export class CalendarComponent implements OnInit {
     },
     height: 'auto',
     aspectRatio: 1.35,
-    timeZone: 'local', // Force local timezone
+    timeZone: 'local', // Cells are plain calendar days; date IDs come from their local components
     validRange: {
       start: new Date() // Prevent selecting past dates
     },
     dayCellClassNames: (arg) => {
-      // FIX: Use local date components to avoid UTC offset issues
-      const cellDate = new Date(arg.date);
-      const year = cellDate.getFullYear();
-      const month = cellDate.getMonth() + 1;
-      const day = cellDate.getDate();
-      const dateStr = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const localCellDate = new Date(year, month - 1, day, 0, 0, 0, 0);
+      // Cells are local midnights; their date ID is the calendar day they show
+      const dateStr = getDateId(arg.date);
+      const isPast = dateStr < getClinicDateId();
       
       const classes = [];
       
       // Past dates
-      if (localCellDate < today) {
+      if (isPast) {
         classes.push('past-date');
       }
       
       // Check availability
       const dateDoc = this.dateAvailability.get(dateStr);
-      if (dateDoc) {
+      if (getClosureOn(this.closures, dateStr)) {
+        classes.push('closed-date');
+      } else if (dateDoc) {
         const availableCount = dateDoc.availableTimeIds?.length ?? 0;
-        if (availableCount === 0 && localCellDate >= today) {
+        if (availableCount === 0 && !isPast) {
           classes.push('fully-booked-date');
         }
       }
@@ -196,24 +276,13 @@ export class CalendarComponent implements OnInit {
       return classes;
     },
     dayCellDidMount: (arg) => {
-      // FIX: Use local date components to avoid UTC offset issues
-      const cellDate = new Date(arg.date);
-      const year = cellDate.getFullYear();
-      const month = cellDate.getMonth() + 1;
-      const day = cellDate.getDate();
-      const dateStr = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-      
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const localCellDate = new Date(year, month - 1, day, 0, 0, 0, 0);
-      
+      const dateStr = getDateId(arg.date);
       const dateDoc = this.dateAvailability.get(dateStr);
-      const isPast = localCellDate < today;
-      const availableCount = dateDoc?.availableTimeIds?.length ?? 0;
-      const isFullyBooked = dateDoc && availableCount === 0;
+      const isPast = dateStr < getClinicDateId();
       
       // Make dates clickable (remove pointer-events: none)
-      if (isPast || isFullyBooked) {
+      // Fully booked dates stay clickable so patients can join the waitlist
+      if (isPast || !dateDoc || getClosureOn(this.closures, dateStr)) {
         arg.el.style.cursor = 'not-allowed';
       } else {
         arg.el.style.cursor = 'pointer';
@@ -229,44 +298,39 @@ export class CalendarComponent implements OnInit {
     console.log('🖱️ arg.date.toISOString():', arg.date.toISOString());
     console.log('🖱️ arg.dayEl.innerText (visual day):', arg.dayEl?.innerText);
     
-    // FIX: Use arg.date and format it in local timezone to avoid UTC offset issues
-    const clickedDate = new Date(arg.date);
-    const year = clickedDate.getFullYear();
-    const month = clickedDate.getMonth() + 1; // getMonth is 0-indexed
-    const day = clickedDate.getDate();
-    
-    // Create the dateStr in YYYY-MM-DD format using LOCAL date components
-    const dateStr = `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
-    
-    console.log('📋 Calculated dateStr from local date:', dateStr);
-    console.log('📋 Original arg.dateStr:', arg.dateStr);
-    
-    // Create a clean date object for this day at midnight local time
-    const localDate = new Date(year, month - 1, day, 0, 0, 0, 0);
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // The clicked cell's calendar day, which is also the clinic date it stands for
+    const dateStr = getDateId(arg.date);
+    const localDate = getDayFromDateId(dateStr);
+    const todayStr = getClinicDateId();
     
-    console.log('📅 Local date:', localDate.toDateString());
-    console.log('📅 Date components -> Day:', day, 'Month:', month, 'Year:', year);
-    console.log('📅 Today:', today.toDateString());
     console.log('📅 Selected dateStr (ID):', dateStr);
+    console.log('📅 Clinic today:', todayStr);
     console.log('📅 Previous selectedDateStr:', this.selectedDateStr);
     
     // Prevent selecting past dates
-    if (localDate < today) {
+    if (dateStr < todayStr) {
       console.log('❌ Date is in the past, cannot select');
       return;
     }
 
+    // Closed dates can't be booked or waitlisted - the cell already shows why
+    const closure = getClosureOn(this.closures, dateStr);
+    if (closure) {
+      console.log('❌ Clinic is closed:', closure.reason);
+      return;
+    }
+
     const dateDoc = this.dateAvailability.get(dateStr);
     console.log('📄 Date document:', dateDoc);
     
     const availableCount = dateDoc?.availableTimeIds?.length ?? 0;
     
-    // Prevent selecting fully booked dates
+    // Prevent selecting fully booked dates - offer the waitlist instead
     if (!dateDoc || availableCount === 0) {
       console.log('❌ Date is fully booked or not available');
+      if (dateDoc) {
+        this.fullyBookedDateSelected.emit({ date: localDate, dateId: dateStr });
+      }
       return;
     }
 
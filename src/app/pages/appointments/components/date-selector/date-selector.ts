@@ -1,7 +1,7 @@
-import { Component, Output, EventEmitter, ViewChild } from '@angular/core';
+import { Component, Input, Output, EventEmitter, ViewChild } from '@angular/core';
 import { FullCalendarComponent } from '@fullcalendar/angular';
 import { CalendarComponent } from '../calendar/calendar';
-import { DateSelectedEvent } from '../../../../models/booking.types';
+import { DateSelectedEvent, FullyBookedDateEvent } from '../../../../models/booking.types';
 
 @Component({
   selector: 'date-selector',
@@ -10,7 +10,9 @@ import { DateSelectedEvent } from '../../../../models/booking.types';
   styleUrl: './date-selector.scss'
 })
 export class DateSelector {
+  @Input() providerIds: string[] = [];
   @Output() dateSelected = new EventEmitter<DateSelectedEvent>();
+  @Output() fullyBookedDateSelected = new EventEmitter<FullyBookedDateEvent>();
   selectedDate: Date | null = null;
   @ViewChild('calendar') calendar!: FullCalendarComponent;
 
@@ -21,6 +23,10 @@ export class DateSelector {
     this.dateSelected.emit(event);
   }
 
+  onFullyBookedDateSelected(event: FullyBookedDateEvent): void {
+    this.fullyBookedDateSelected.emit(event);
+  }
+
   goToToday() {
     this.calendar.getApi().today();
   }
@@ -1,6 +1,8 @@
-import { Component, Input } from '@angular/core';
+import { Component, Input, OnChanges, SimpleChanges, inject, ChangeDetectorRef } from '@angular/core';
 import { DatePipe } from '@angular/common';
 import { Appointment } from '../../../../services/appointments.service';
+import { AppointmentAction, AppointmentEvent, AppointmentEventsService } from '../../../../services/appointment-events.service';
+import { AppointmentStatus, STATUS_LABELS } from '../../../../utils/appointment-status';
 
 @Component({
   selector: 'full-appointment-view',
@@ -8,6 +10,88 @@ import { Appointment } from '../../../../services/appointments.service';
   templateUrl: './full-appointment-view.html',
   styleUrl: './full-appointment-view.scss'
 })
-export class FullAppointmentView {
+export class FullAppointmentView implements OnChanges {
   @Input() appointment: Appointment | null = null;
+
+  private appointmentEventsService = inject(AppointmentEventsService);
+  private cdr = inject(ChangeDetectorRef);
+
+  // Audit trail for the selected appointment (empty for bookings made before events were recorded)
+  events: AppointmentEvent[] = [];
+  eventsLoading = false;
+
+  readonly statusLabels = STATUS_LABELS;
+
+  readonly statusClasses: Record<AppointmentStatus, string> = {
+    'pending': 'bg-amber-100 text-amber-700',
+    'confirmed': 'bg-emerald-100 text-emerald-700',
+    'checked-in': 'bg-blue-100 text-blue-700',
+    'completed': 'bg-gray-200 text-gray-700',
+    'no-show': 'bg-orange-100 text-orange-700',
+    'cancelled': 'bg-red-100 text-red-700'
+  };
+
+  private readonly actionLabels: Record<AppointmentAction, string> = {
+    'booked': 'Booked',
+    'cancelled': 'Cancelled',
+    'rescheduled': 'Rescheduled',
+    'status-changed': 'Status changed'
+  };
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['appointment']) {
+      this.loadEvents();
+    }
+  }
+
+  private async loadEvents() {
+    const appointmentId = this.appointment?.appointmentId;
+    this.events = [];
+
+    if (!appointmentId) {
+      return;
+    }
+
+    this.eventsLoading = true;
+    try {
+      const events = await this.appointmentEventsService.getEvents(appointmentId);
+      // Ignore a late answer for an appointment that is no longer selected
+      if (appointmentId === this.appointment?.appointmentId) {
+        this.events = events;
+      }
+    } catch (error) {
+      console.error('❌ FullAppointmentView: Error loading appointment events:', error);
+    } finally {
+      this.eventsLoading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  actionLabel(event: AppointmentEvent): string {
+    return this.actionLabels[event.action];
+  }
+
+  /**
+   * One line on what the event changed
+   */
+  eventDetail(event: AppointmentEvent): string | null {
+    const { before, after } = event;
+
+    switch (event.action) {
+      case 'booked':
+        return after.rescheduledFrom
+          ? `${after.date} at ${after.time}, replacing an earlier booking`
+          : `${after.date} at ${after.time}`;
+      case 'rescheduled':
+        return before ? `Moved from ${before.date} at ${before.time}` : null;
+      case 'cancelled':
+        return after.cancellationReason ? `"${after.cancellationReason}"` : null;
+      case 'status-changed':
+        return before ? `${STATUS_LABELS[before.status]} → ${STATUS_LABELS[after.status]}` : STATUS_LABELS[after.status];
+    }
+  }
+
+  actorLabel(event: AppointmentEvent): string {
+    return (event.staffInitiated ?? event.actorId !== event.userId) ? 'by staff' : 'by patient';
+  }
 }
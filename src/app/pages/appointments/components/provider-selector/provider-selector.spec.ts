@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ProviderSelector } from './provider-selector';
+
+describe('ProviderSelector', () => {
+  let component: ProviderSelector;
+  let fixture: ComponentFixture<ProviderSelector>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ProviderSelector]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ProviderSelector);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
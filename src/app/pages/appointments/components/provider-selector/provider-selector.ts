@@ -0,0 +1,42 @@
+import { Component, Input, Output, EventEmitter, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { Provider, ProvidersService } from '../../../../services/providers.service';
+import { ProviderSelection } from '../../../../models/booking.types';
+
+@Component({
+  selector: 'provider-selector',
+  imports: [],
+  templateUrl: './provider-selector.html',
+  styleUrl: './provider-selector.scss'
+})
+export class ProviderSelector implements OnInit {
+  @Input() selectedProviderId: string | null = null; // null = any available
+  @Output() providerSelected = new EventEmitter<ProviderSelection>();
+
+  private providersService = inject(ProvidersService);
+  private cdr = inject(ChangeDetectorRef);
+
+  providers: Provider[] = [];
+  loading = true;
+
+  async ngOnInit() {
+    try {
+      this.providers = await this.providersService.getProviders();
+    } catch (error) {
+      console.error('Error loading providers:', error);
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+
+    // Start with "any available" so the calendar has schedules to combine straight away
+    this.onSelectAny();
+  }
+
+  onSelectAny() {
+    this.providerSelected.emit({ providerId: null, providers: this.providers });
+  }
+
+  onSelect(provider: Provider) {
+    this.providerSelected.emit({ providerId: provider.providerId, providers: [provider] });
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { RecurrenceOptions } from './recurrence-options';
+
+describe('RecurrenceOptions', () => {
+  let component: RecurrenceOptions;
+  let fixture: ComponentFixture<RecurrenceOptions>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [RecurrenceOptions]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(RecurrenceOptions);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
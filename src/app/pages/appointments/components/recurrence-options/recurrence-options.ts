@@ -0,0 +1,62 @@
+import { Component, OnInit, OnDestroy, Output, EventEmitter, inject } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+import { RecurrenceRule, MAX_SERIES_OCCURRENCES } from '../../../../utils/recurrence';
+
+@Component({
+  selector: 'recurrence-options',
+  imports: [ReactiveFormsModule],
+  templateUrl: './recurrence-options.html',
+  styleUrl: './recurrence-options.scss'
+})
+export class RecurrenceOptions implements OnInit, OnDestroy {
+  private formBuilder = inject(FormBuilder);
+  private destroy$ = new Subject<void>();
+
+  @Output() ruleChange = new EventEmitter<RecurrenceRule | null>();
+
+  readonly intervalOptions = [1, 2, 3, 4];
+  readonly countOptions = Array.from({ length: MAX_SERIES_OCCURRENCES - 1 }, (_, i) => i + 2);
+
+  recurrenceForm!: FormGroup;
+
+  ngOnInit() {
+    this.recurrenceForm = this.formBuilder.group({
+      repeat: [false],
+      intervalWeeks: [1],
+      endMode: ['count'],
+      count: [4],
+      untilDate: ['']
+    });
+
+    this.recurrenceForm.valueChanges
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.ruleChange.emit(this.buildRule()));
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  get isRepeating(): boolean {
+    return !!this.recurrenceForm?.value.repeat;
+  }
+
+  get endMode(): 'count' | 'until' {
+    return this.recurrenceForm?.value.endMode;
+  }
+
+  private buildRule(): RecurrenceRule | null {
+    const { repeat, intervalWeeks, endMode, count, untilDate } = this.recurrenceForm.value;
+
+    if (!repeat) {
+      return null;
+    }
+    if (endMode === 'until') {
+      // No end date yet - nothing to repeat until the patient picks one
+      return untilDate ? { intervalWeeks: Number(intervalWeeks), untilDateId: untilDate } : null;
+    }
+    return { intervalWeeks: Number(intervalWeeks), count: Number(count) };
+  }
+}
@@ -0,0 +1,79 @@
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
+import { DateSelector } from '../date-selector/date-selector';
+import { TimeSelector } from '../time-selector/time-selector';
+import { Appointment } from '../../../../services/appointments.service';
+import { DateSelectedEvent, RescheduleSelection, TimeSelectedEvent } from '../../../../models/booking.types';
+import { getAppointmentTimeIds } from '../../../../utils/appointment-types';
+
+@Component({
+  selector: 'reschedule-modal',
+  imports: [DateSelector, TimeSelector],
+  templateUrl: './reschedule-modal.html',
+  styleUrl: './reschedule-modal.scss'
+})
+export class RescheduleModal implements OnChanges {
+  @Input() appointment: Appointment | null = null;
+  @Input() isRescheduling = false;
+  @Output() confirm = new EventEmitter<RescheduleSelection>();
+  @Output() cancel = new EventEmitter<void>();
+
+  selectedDate: Date | null = null;
+  selectedDateId: string | null = null;
+  selectedTime: string | null = null;
+  selectedTimeId: string | null = null;
+
+  // The patient stays with the same provider (older bookings use the shared schedule)
+  providerIds: string[] = [];
+
+  ngOnChanges(changes: SimpleChanges) {
+    if (changes['appointment']) {
+      this.providerIds = this.appointment?.providerId ? [this.appointment.providerId] : [];
+    }
+  }
+
+  // The new time needs as many consecutive slots as the current booking covers
+  get slotsNeeded(): number {
+    return this.appointment ? getAppointmentTimeIds(this.appointment).length : 1;
+  }
+
+  onDateSelected(event: DateSelectedEvent): void {
+    this.selectedDate = event.date;
+    this.selectedDateId = event.dateId;
+
+    // Reset time selection when date changes
+    this.selectedTime = null;
+    this.selectedTimeId = null;
+  }
+
+  onTimeSelected(event: TimeSelectedEvent | null): void {
+    this.selectedTime = event?.time ?? null;
+    this.selectedTimeId = event?.timeId ?? null;
+  }
+
+  isSameSlot(): boolean {
+    return !!this.appointment &&
+      this.appointment.dateId === this.selectedDateId &&
+      this.appointment.timeId === this.selectedTimeId;
+  }
+
+  canConfirm(): boolean {
+    return !!(this.selectedDate && this.selectedDateId && this.selectedTime && this.selectedTimeId) &&
+      !this.isSameSlot() &&
+      !this.isRescheduling;
+  }
+
+  onConfirm() {
+    if (!this.canConfirm()) return;
+
+    this.confirm.emit({
+      date: this.selectedDate!,
+      dateId: this.selectedDateId!,
+      time: this.selectedTime!,
+      timeId: this.selectedTimeId!
+    });
+  }
+
+  onCancel() {
+    this.cancel.emit();
+  }
+}
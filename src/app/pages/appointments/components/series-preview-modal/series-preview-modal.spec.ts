@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SeriesPreviewModal } from './series-preview-modal';
+
+describe('SeriesPreviewModal', () => {
+  let component: SeriesPreviewModal;
+  let fixture: ComponentFixture<SeriesPreviewModal>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SeriesPreviewModal]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SeriesPreviewModal);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
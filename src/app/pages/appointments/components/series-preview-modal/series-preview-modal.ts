@@ -0,0 +1,30 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { SeriesOccurrence } from '../../../../services/appointments.service';
+
+@Component({
+  selector: 'series-preview-modal',
+  imports: [],
+  templateUrl: './series-preview-modal.html',
+  styleUrl: './series-preview-modal.scss'
+})
+export class SeriesPreviewModal {
+  @Input() occurrences: SeriesOccurrence[] = [];
+  @Input() time: string | null = null;
+  @Input() isBooking = false;
+  @Output() confirm = new EventEmitter<string[]>();
+  @Output() cancel = new EventEmitter<void>();
+
+  get availableDateIds(): string[] {
+    return this.occurrences.filter(occurrence => occurrence.available).map(occurrence => occurrence.dateId);
+  }
+
+  onConfirm() {
+    if (this.availableDateIds.length === 0 || this.isBooking) return;
+    this.confirm.emit(this.availableDateIds);
+  }
+
+  onCancel() {
+    if (this.isBooking) return;
+    this.cancel.emit();
+  }
+}
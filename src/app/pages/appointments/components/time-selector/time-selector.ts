@@ -1,8 +1,23 @@
-import { Component, Output, EventEmitter, Input, OnChanges, SimpleChanges, inject, ChangeDetectorRef } from '@angular/core';
+import { Component, Output, EventEmitter, Input, OnChanges, OnDestroy, SimpleChanges, inject, ChangeDetectorRef, PLATFORM_ID } from '@angular/core';
 import { TimeSlots } from '../../../../shared/time-slots/time-slots';
-import { AppointmentsService, TimeDoc } from '../../../../services/appointments.service';
-import { CommonModule } from '@angular/common';
+import { AppointmentsService, DateDoc, TimeDoc } from '../../../../services/appointments.service';
+import { SlotHoldsService } from '../../../../services/slot-holds.service';
+import { getRemainingSeats } from '../../../../utils/slot-capacity';
+import { getCoveredTimeIds } from '../../../../utils/appointment-types';
+import { getMinutesOfDay, getSlotStart } from '../../../../utils/slot-time';
+import { CLINIC_TIME_ZONE, formatTimeInZone, getTimeZoneName, getUserTimeZone, sharesClinicTime } from '../../../../utils/clinic-time';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { TimeSelectedEvent } from '../../../../models/booking.types';
+import { Subscription, combineLatest, from, map } from 'rxjs';
+
+/**
+ * One provider's live seats and holds for the selected date
+ */
+interface ProviderAvailability {
+  providerId?: string; // missing = the shared clinic schedule
+  dateData: DateDoc | null;
+  heldSeats: Map<string, number>;
+}
 
 @Component({
   selector: 'time-selector',
@@ -10,93 +25,193 @@ import { TimeSelectedEvent } from '../../../../models/booking.types';
   templateUrl: './time-selector.html',
   styleUrl: './time-selector.scss'
 })
-export class TimeSelector implements OnChanges {
+export class TimeSelector implements OnChanges, OnDestroy {
   @Input() selectedDateId: string | null = null;
+  @Input() slotsNeeded = 1; // consecutive slots the chosen appointment type takes
+  @Input() providerIds: string[] = []; // empty = the shared clinic schedule
   @Output() timeSelected = new EventEmitter<TimeSelectedEvent | null>();
   
   private appointmentsService = inject(AppointmentsService);
+  private slotHoldsService = inject(SlotHoldsService);
   private cdr = inject(ChangeDetectorRef);
+  private platformId = inject(PLATFORM_ID);
+  private availabilitySubscription: Subscription | null = null;
+  private latestAvailability: { allTimes: TimeDoc[]; schedules: ProviderAvailability[] } | null = null;
+  // First provider (in the order given) who can take a visit starting at each timeId
+  private providerForTime: { [timeId: string]: string | undefined } = {};
   
-  selectedTime: string | null = null;
-  availableTimes: string[] = [];
-  allTimeSlots: string[] = [];
-  disabledSlots: string[] = [];
+  selectedTimeId: string | null = null;
+  times: TimeDoc[] = [];
+  disabledTimeIds: string[] = [];
+  seatsRemaining: { [timeId: string]: number } = {};
+  // Patients outside the clinic's zone also see each slot in their own time
+  localTimes: { [timeId: string]: string } = {};
+  timeZoneNote: string | null = null;
   loading = false;
 
   ngOnChanges(changes: SimpleChanges) {
-    if (changes['selectedDateId']) {
+    // A different appointment type changes which start times fit - no need to refetch
+    if (changes['slotsNeeded'] && !changes['selectedDateId'] && this.latestAvailability) {
+      const { allTimes, schedules } = this.latestAvailability;
+      this.updateAvailableTimes(allTimes, schedules);
+    }
+
+    const providersChanged = changes['providerIds'] && !changes['providerIds'].firstChange &&
+      (changes['providerIds'].previousValue ?? []).join() !== this.providerIds.join();
+
+    if (changes['selectedDateId'] || providersChanged) {
+      this.stopWatching();
+
       if (this.selectedDateId) {
         // Defer loading to avoid ExpressionChangedAfterItHasBeenCheckedError
-        setTimeout(() => this.loadAvailableTimes(), 0);
+        setTimeout(() => this.watchAvailableTimes(), 0);
       } else {
         // No date selected, disable all times
-        this.availableTimes = [];
-        this.allTimeSlots = [];
-        this.disabledSlots = [];
-        this.selectedTime = null;
+        this.times = [];
+        this.disabledTimeIds = [];
+        this.seatsRemaining = {};
+        this.localTimes = {};
+        this.timeZoneNote = null;
+        this.selectedTimeId = null;
         // Defer emission to avoid change detection error
         setTimeout(() => this.timeSelected.emit(null), 0);
       }
     }
   }
 
-  private async loadAvailableTimes() {
-    if (!this.selectedDateId) {
+  ngOnDestroy() {
+    this.stopWatching();
+  }
+
+  /**
+   * Follow the selected date's seats and holds live so taken slots disable themselves
+   * Every chosen provider's schedule is followed separately, since a visit can't be split between them
+   */
+  private watchAvailableTimes() {
+    const dateId = this.selectedDateId;
+    if (!dateId || !isPlatformBrowser(this.platformId)) {
       return;
     }
-    
+
+    this.stopWatching();
     this.loading = true;
-    
-    try {
-      // OPTIMIZATION: Fetch both in parallel instead of sequentially
-      const [allTimes, dateData] = await Promise.all([
-        this.appointmentsService.getAllTimes(),
-        this.appointmentsService.getDateAvailability(this.selectedDateId)
-      ]);
-      
-      this.allTimeSlots = allTimes.map(t => t.time);
-      
-      // Get available time IDs from the date document
-      const availableTimeIds = dateData?.availableTimeIds || [];
-      
-      // Map time IDs to time strings
-      const timeIdToTimeMap = new Map(allTimes.map(t => [t.timeId, t.time]));
-      this.availableTimes = availableTimeIds
-        .map(id => timeIdToTimeMap.get(id))
-        .filter(time => time !== undefined) as string[];
-      
-      // Disabled slots are all slots not in available times
-      this.disabledSlots = this.allTimeSlots.filter(t => !this.availableTimes.includes(t));
-      
-      // Reset selection if current selection is not available
-      if (this.selectedTime && this.disabledSlots.includes(this.selectedTime)) {
-        this.selectedTime = null;
-        // Defer emission to avoid change detection error
-        setTimeout(() => this.timeSelected.emit(null), 0);
+
+    const providerIds: (string | undefined)[] = this.providerIds.length > 0 ? this.providerIds : [undefined];
+    const schedules$ = combineLatest(providerIds.map(providerId =>
+      combineLatest([
+        this.appointmentsService.watchDateAvailability(dateId, providerId),
+        this.slotHoldsService.watchHeldSeatCounts(dateId, providerId)
+      ]).pipe(map(([dateData, heldSeats]): ProviderAvailability => ({ providerId, dateData, heldSeats })))
+    ));
+
+    this.availabilitySubscription = combineLatest([
+      from(this.appointmentsService.getAllTimes()),
+      schedules$
+    ]).subscribe({
+      next: ([allTimes, schedules]) => {
+        // Ignore late snapshots for a date that is no longer selected
+        if (dateId !== this.selectedDateId) {
+          return;
+        }
+
+        this.updateAvailableTimes(allTimes, schedules);
+        this.loading = false;
+        // Zoneless - snapshot callbacks don't trigger change detection on their own
+        this.cdr.detectChanges();
+      },
+      error: (error) => {
+        console.error('Error loading available times:', error);
+        this.loading = false;
+        this.cdr.detectChanges();
       }
-    } catch (error) {
-      console.error('Error loading available times:', error);
-    } finally {
-      this.loading = false;
+    });
+  }
+
+  private stopWatching() {
+    this.availabilitySubscription?.unsubscribe();
+    this.availabilitySubscription = null;
+    this.latestAvailability = null;
+    this.providerForTime = {};
+  }
+
+  private updateAvailableTimes(allTimes: TimeDoc[], schedules: ProviderAvailability[]) {
+    this.latestAvailability = { allTimes, schedules };
+    this.times = allTimes;
+    
+    // Seats left per start time, minus seats other patients are holding right now
+    // Longer appointment types need a seat on every slot they cover, so the scarcest slot counts
+    // Providers are added together; each must fit the whole visit on their own schedule
+    this.seatsRemaining = {};
+    this.providerForTime = {};
+    allTimes.forEach(t => {
+      const covered = getCoveredTimeIds(allTimes, t.timeId, this.slotsNeeded);
+      this.seatsRemaining[t.timeId] = 0;
+
+      schedules.forEach(({ providerId, dateData, heldSeats }) => {
+        if (!covered || !dateData) {
+          return;
+        }
+
+        const freeSeats = (timeId: string) =>
+          Math.max(0, getRemainingSeats(dateData, timeId) - (heldSeats.get(timeId) ?? 0));
+        const seats = Math.min(...covered.map(freeSeats));
+
+        if (seats > 0 && this.seatsRemaining[t.timeId] === 0) {
+          this.providerForTime[t.timeId] = providerId;
+        }
+        this.seatsRemaining[t.timeId] += seats;
+      });
+    });
+    
+    this.updateLocalTimes(allTimes);
+    
+    // Disabled slots are all times without a free seat
+    this.disabledTimeIds = allTimes.filter(t => this.seatsRemaining[t.timeId] === 0).map(t => t.timeId);
+    
+    // Reset selection if the selected slot was just taken
+    if (this.selectedTimeId && this.disabledTimeIds.includes(this.selectedTimeId)) {
+      this.selectedTimeId = null;
+      // Defer emission to avoid change detection error
+      setTimeout(() => this.timeSelected.emit(null), 0);
     }
   }
 
-  onTimeSelected(time: string | null): void {
-    if (!time || !this.selectedDateId) {
-      this.selectedTime = null;
-      this.timeSelected.emit(null);
+  /**
+   * Label each slot with the patient's own time when their zone differs from the clinic's that day
+   */
+  private updateLocalTimes(allTimes: TimeDoc[]) {
+    const dateId = this.selectedDateId;
+    this.localTimes = {};
+    this.timeZoneNote = null;
+
+    if (!dateId || allTimes.length === 0 || !isPlatformBrowser(this.platformId)) {
       return;
     }
 
-    this.selectedTime = time;
-    
-    // Find the timeId for this time
-    const timeId = this.createTimeId(time);
-    this.timeSelected.emit({ time, timeId });
+    const userTimeZone = getUserTimeZone();
+    const firstStart = getSlotStart(dateId, allTimes.reduce((earliest, t) => getMinutesOfDay(t) < getMinutesOfDay(earliest) ? t : earliest));
+    if (sharesClinicTime(firstStart, userTimeZone)) {
+      return;
+    }
+
+    allTimes.forEach(t => {
+      this.localTimes[t.timeId] = `${formatTimeInZone(getSlotStart(dateId, t), userTimeZone, dateId)} your time`;
+    });
+    this.timeZoneNote = `Times are clinic time (${getTimeZoneName(firstStart, CLINIC_TIME_ZONE)}). ` +
+      `Your time (${getTimeZoneName(firstStart, userTimeZone)}) is shown under each slot.`;
   }
 
-  private createTimeId(time: string): string {
-    // Convert "8:00 AM" to "08-00_AM"
-    return time.replace(/:/g, '-').replace(/ /g, '_');
+  onTimeSelected(time: TimeDoc | null): void {
+    if (!time || !this.selectedDateId) {
+      this.selectedTimeId = null;
+      this.timeSelected.emit(null);
+      return;
+    }
+
+    this.selectedTimeId = time.timeId;
+    const providerId = this.providerForTime[time.timeId];
+    const timeIds = getCoveredTimeIds(this.times, time.timeId, this.slotsNeeded) ?? [time.timeId];
+    const event: TimeSelectedEvent = { time: time.time, timeId: time.timeId, timeIds };
+    this.timeSelected.emit(providerId ? { ...event, providerId } : event);
   }
 }
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WaitlistPrompt } from './waitlist-prompt';
+
+describe('WaitlistPrompt', () => {
+  let component: WaitlistPrompt;
+  let fixture: ComponentFixture<WaitlistPrompt>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WaitlistPrompt]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WaitlistPrompt);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
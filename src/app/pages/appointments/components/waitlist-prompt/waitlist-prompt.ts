@@ -0,0 +1,50 @@
+import { Component, Input, Output, EventEmitter, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { AppointmentsService, TimeDoc } from '../../../../services/appointments.service';
+import { WaitlistRequest } from '../../../../models/booking.types';
+
+@Component({
+  selector: 'waitlist-prompt',
+  imports: [DatePipe, ReactiveFormsModule],
+  templateUrl: './waitlist-prompt.html',
+  styleUrl: './waitlist-prompt.scss'
+})
+export class WaitlistPrompt implements OnInit {
+  @Input() date: Date | null = null;
+  @Input() dateId: string | null = null;
+  @Input() isJoining = false;
+  @Output() join = new EventEmitter<WaitlistRequest>();
+  @Output() dismiss = new EventEmitter<void>();
+
+  private appointmentsService = inject(AppointmentsService);
+  private cdr = inject(ChangeDetectorRef);
+
+  times: TimeDoc[] = [];
+  timeControl = new FormControl<string | null>(null); // null = any time
+
+  async ngOnInit() {
+    try {
+      this.times = await this.appointmentsService.getAllTimes();
+      this.cdr.detectChanges();
+    } catch (error) {
+      console.error('Error loading times for waitlist:', error);
+    }
+  }
+
+  onJoin() {
+    if (!this.dateId || this.isJoining) return;
+
+    const timeId = this.timeControl.value;
+    const time = this.times.find(t => t.timeId === timeId);
+    this.join.emit({
+      dateId: this.dateId,
+      timeId,
+      time: time?.time ?? null
+    });
+  }
+
+  onDismiss() {
+    this.dismiss.emit();
+  }
+}
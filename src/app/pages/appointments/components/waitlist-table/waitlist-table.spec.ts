@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WaitlistTable } from './waitlist-table';
+
+describe('WaitlistTable', () => {
+  let component: WaitlistTable;
+  let fixture: ComponentFixture<WaitlistTable>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WaitlistTable]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(WaitlistTable);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,134 @@
+import { Component, OnInit, inject, Output, EventEmitter, ChangeDetectorRef } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { AppointmentsService } from '../../../../services/appointments.service';
+import { WaitlistService, WaitlistEntry, isOfferActive } from '../../../../services/waitlist.service';
+import { ConfirmationModalComponent } from '../../../../shared/confirmation-modal/confirmation-modal';
+import { SuccessModalComponent } from '../../../../shared/success-modal/success-modal';
+import { ErrorModalComponent } from '../../../../shared/error-modal/error-modal';
+
+@Component({
+  selector: 'waitlist-table',
+  imports: [DatePipe, ConfirmationModalComponent, SuccessModalComponent, ErrorModalComponent],
+  templateUrl: './waitlist-table.html',
+  styleUrl: './waitlist-table.scss'
+})
+export class WaitlistTable implements OnInit {
+  private appointmentsService = inject(AppointmentsService);
+  private waitlistService = inject(WaitlistService);
+  private cdr = inject(ChangeDetectorRef);
+
+  @Output() offerClaimed = new EventEmitter<string>();
+
+  entries: WaitlistEntry[] = [];
+  loading = true;
+  processingEntryId: string | null = null;
+
+  // Modal states
+  showConfirmationModal = false;
+  showSuccessModal = false;
+  showErrorModal = false;
+  successMessage = '';
+  errorMessage = '';
+
+  // Entry the user is about to leave
+  entryToLeave: WaitlistEntry | null = null;
+
+  ngOnInit() {
+    this.loadWaitlist();
+  }
+
+  async loadWaitlist() {
+    this.loading = true;
+    this.cdr.markForCheck();
+
+    try {
+      this.entries = await this.waitlistService.getUserWaitlist();
+    } catch (error) {
+      console.error('❌ WaitlistTable: Error loading waitlist:', error);
+      this.entries = [];
+    } finally {
+      this.loading = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  hasActiveOffer(entry: WaitlistEntry): boolean {
+    return isOfferActive(entry);
+  }
+
+  statusLabel(entry: WaitlistEntry): string {
+    if (entry.status === 'waiting') {
+      return 'Waiting';
+    }
+    return isOfferActive(entry) ? 'Seat offered' : 'Offer expired';
+  }
+
+  async claimOffer(entry: WaitlistEntry) {
+    if (!entry.offeredTimeId || this.processingEntryId) return;
+
+    this.processingEntryId = entry.entryId;
+    this.cdr.detectChanges();
+
+    const result = await this.appointmentsService.bookAppointment(entry.dateId, entry.offeredTimeId, {
+      waitlistEntryId: entry.entryId,
+      providerId: entry.offeredProviderId
+    });
+
+    this.processingEntryId = null;
+
+    if (result.success) {
+      this.successMessage = `Your appointment on ${entry.date} at ${entry.offeredTime} is booked.`;
+      this.showSuccessModal = true;
+      this.offerClaimed.emit(result.appointmentId);
+      this.loadWaitlist();
+    } else {
+      this.errorMessage = result.error || 'Unable to claim this seat. Please try again.';
+      this.showErrorModal = true;
+    }
+    this.cdr.detectChanges();
+  }
+
+  leaveWaitlist(entry: WaitlistEntry) {
+    this.entryToLeave = entry;
+    this.showConfirmationModal = true;
+    this.cdr.detectChanges();
+  }
+
+  async onConfirmLeave() {
+    const entry = this.entryToLeave;
+    this.showConfirmationModal = false;
+    this.entryToLeave = null;
+    if (!entry) return;
+
+    this.processingEntryId = entry.entryId;
+    this.cdr.detectChanges();
+
+    const result = await this.waitlistService.leaveWaitlist(entry.entryId);
+
+    this.processingEntryId = null;
+
+    if (result.success) {
+      this.loadWaitlist();
+    } else {
+      this.errorMessage = result.error || 'Unable to leave the waitlist. Please try again.';
+      this.showErrorModal = true;
+    }
+    this.cdr.detectChanges();
+  }
+
+  onCancelLeave() {
+    this.showConfirmationModal = false;
+    this.entryToLeave = null;
+    this.cdr.detectChanges();
+  }
+
+  onSuccessModalClose() {
+    this.showSuccessModal = false;
+    this.cdr.detectChanges();
+  }
+
+  onErrorModalClose() {
+    this.showErrorModal = false;
+    this.cdr.detectChanges();
+  }
+}
@@ -1,19 +1,26 @@
-import { Component } from '@angular/core';
+import { Component, ViewChild } from '@angular/core';
 import { BackButton } from '../../../shared/back-button/back-button';
 import { BookingTable } from '../components/booking-table/booking-table';
 import { FullAppointmentView } from '../components/full-appointment-view/full-appointment-view';
+import { WaitlistTable } from '../components/waitlist-table/waitlist-table';
 import { Appointment } from '../../../services/appointments.service';
 
 @Component({
   selector: 'app-view-appointment',
-  imports: [BackButton, BookingTable, FullAppointmentView],
+  imports: [BackButton, BookingTable, FullAppointmentView, WaitlistTable],
   templateUrl: './view-appointment.html',
   styleUrl: './view-appointment.scss'
 })
 export class ViewAppointment {
+  @ViewChild(BookingTable) bookingTable!: BookingTable;
   selectedAppointment: Appointment | null = null;
 
   onAppointmentSelected(appointment: Appointment) {
     this.selectedAppointment = appointment;
   }
+
+  onWaitlistOfferClaimed() {
+    // The claimed seat is a new appointment
+    this.bookingTable.loadAppointments();
+  }
 }
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { Forbidden } from './forbidden';
+
+describe('Forbidden', () => {
+  let component: Forbidden;
+  let fixture: ComponentFixture<Forbidden>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Forbidden]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Forbidden);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
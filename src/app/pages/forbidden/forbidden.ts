@@ -0,0 +1,10 @@
+import { Component } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+@Component({
+  selector: 'app-forbidden',
+  imports: [RouterLink],
+  templateUrl: './forbidden.html',
+  styleUrl: './forbidden.scss'
+})
+export class Forbidden {}
@@ -88,7 +88,7 @@ export class RegisterCard implements OnInit {
       console.log('   Profile created:', profile);
       
       // Success! Show modal (UI logic)
-      this.successMessage = 'Your account has been created successfully! You can now login with your credentials.';
+      this.successMessage = 'Your account has been created successfully! You can now login with your credentials. We also sent you a link to verify your email - appointments the clinic booked for you show up once it is verified.';
       this.showSuccessModal = true;
       // Manually trigger change detection to show modal immediately
       this.cdr.detectChanges();
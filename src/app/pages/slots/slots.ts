@@ -1,11 +1,289 @@
-import { Component } from '@angular/core';
+import { Component, OnInit, inject, ChangeDetectorRef } from '@angular/core';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { AppointmentsService, DateDoc } from '../../services/appointments.service';
+import { ProvidersService, Provider } from '../../services/providers.service';
+import { SlotsService, SlotView } from '../../services/slots.service';
+import { BackButton } from '../../shared/back-button/back-button';
+import { ErrorModalComponent } from '../../shared/error-modal/error-modal';
+import { AppointmentStatus, STATUS_LABELS } from '../../utils/appointment-status';
+import { getClinicDateId, getDayFromDateId } from '../../utils/clinic-time';
+import { AvailabilityDiscrepancy, DateCheck, isRepairable } from '../../utils/availability-check';
+import { getWindowDateIds } from '../../utils/availability-templates';
+
+// Days the availability check covers by default, starting today
+const CHECK_DAYS = 60;
 
 @Component({
   selector: 'app-slots',
-  imports: [],
+  imports: [ReactiveFormsModule, BackButton, ErrorModalComponent],
   templateUrl: './slots.html',
   styleUrl: './slots.scss'
 })
-export class Slots {
+export class Slots implements OnInit {
+  private formBuilder = inject(FormBuilder);
+  private appointmentsService = inject(AppointmentsService);
+  private providersService = inject(ProvidersService);
+  private slotsService = inject(SlotsService);
+  private cdr = inject(ChangeDetectorRef);
+
+  // Schedule being edited - undefined = the shared clinic schedule
+  providers: Provider[] = [];
+  providerId: string | undefined = undefined;
+
+  dates: DateDoc[] = [];
+  selectedDateId: string | null = null;
+  selectedDate: DateDoc | null = null;
+  schedule: SlotView[] = [];
+
+  addDateForm!: FormGroup;
+  loadingDates = true;
+  loadingSchedule = false;
+  addingDate = false;
+  // timeId currently being opened or closed
+  savingTimeId: string | null = null;
+
+  // Availability check for the selected schedule - checks is null until one has run
+  checkFromDateId = getClinicDateId();
+  checkToDateId = getWindowDateIds(this.checkFromDateId, CHECK_DAYS)[CHECK_DAYS - 1];
+  checks: DateCheck[] | null = null;
+  checking = false;
+  repairing = false;
+
+  showErrorModal = false;
+  errorMessage = '';
+
+  ngOnInit() {
+    this.addDateForm = this.formBuilder.group({
+      dateId: [getClinicDateId(), Validators.required],
+      capacity: [1, [Validators.required, Validators.min(1)]]
+    });
+
+    this.loadProviders();
+  }
+
+  private async loadProviders() {
+    try {
+      this.providers = await this.providersService.getProviders();
+    } catch (error) {
+      console.error('❌ Slots: Error loading providers:', error);
+    }
+    await this.loadDates();
+  }
+
+  async loadDates() {
+    this.loadingDates = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.dates = (await this.appointmentsService.getAllDates(this.providerId))
+        .sort((a, b) => a.dateId.localeCompare(b.dateId));
+
+      // Keep the selection if the date is on this schedule too, otherwise start from today
+      const todayId = getClinicDateId();
+      const keep = this.dates.find(date => date.dateId === this.selectedDateId);
+      const next = keep ?? this.dates.find(date => date.dateId >= todayId) ?? this.dates[0];
+      this.selectedDateId = next?.dateId ?? null;
+    } catch (error) {
+      console.error('❌ Slots: Error loading dates:', error);
+      this.showError('Unable to load the schedule.');
+    } finally {
+      this.loadingDates = false;
+      this.cdr.detectChanges();
+    }
+
+    await this.loadSchedule();
+  }
+
+  async loadSchedule() {
+    const dateId = this.selectedDateId;
+    if (!dateId) {
+      this.selectedDate = null;
+      this.schedule = [];
+      this.cdr.detectChanges();
+      return;
+    }
+
+    this.loadingSchedule = true;
+    this.cdr.detectChanges();
+
+    try {
+      const { dateDoc, slots } = await this.slotsService.getDateSchedule(dateId, this.providerId);
+      // Ignore a late answer for a date that is no longer selected
+      if (dateId !== this.selectedDateId) {
+        return;
+      }
+      this.selectedDate = dateDoc;
+      this.schedule = slots;
+    } catch (error) {
+      console.error('❌ Slots: Error loading date schedule:', error);
+      this.showError('Unable to load this date.');
+    } finally {
+      this.loadingSchedule = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  onProviderChange(event: Event) {
+    const value = (event.target as HTMLSelectElement).value;
+    this.providerId = value || undefined;
+    this.checks = null;
+    this.loadDates();
+  }
+
+  onDateChange(event: Event) {
+    this.selectedDateId = (event.target as HTMLSelectElement).value || null;
+    this.loadSchedule();
+  }
+
+  async toggleSlot(view: SlotView) {
+    if (!this.selectedDateId || this.savingTimeId) {
+      return;
+    }
+
+    this.savingTimeId = view.time.timeId;
+    this.cdr.detectChanges();
+
+    const result = await this.slotsService.setSlotOpen(
+      this.selectedDateId,
+      view.time.timeId,
+      !!view.slot.closed,
+      this.providerId
+    );
+
+    this.savingTimeId = null;
+    if (result.success) {
+      await this.loadSchedule();
+    } else {
+      this.showError(result.error || 'Unable to update this time.');
+    }
+  }
+
+  async onAddDate() {
+    if (this.addDateForm.invalid || this.addingDate) {
+      this.addDateForm.markAllAsTouched();
+      return;
+    }
+
+    this.addingDate = true;
+    this.cdr.detectChanges();
+
+    const { dateId, capacity } = this.addDateForm.value;
+    const result = await this.slotsService.addDate(dateId, { providerId: this.providerId, capacity: Number(capacity) });
+
+    this.addingDate = false;
+    if (result.success) {
+      this.selectedDateId = dateId;
+      await this.loadDates();
+    } else {
+      this.showError(result.error || 'Unable to add this date.');
+    }
+  }
+
+  onCheckFromChange(event: Event) {
+    this.checkFromDateId = (event.target as HTMLInputElement).value;
+  }
+
+  onCheckToChange(event: Event) {
+    this.checkToDateId = (event.target as HTMLInputElement).value;
+  }
+
+  async runCheck() {
+    if (!this.checkFromDateId || !this.checkToDateId || this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    this.cdr.detectChanges();
+
+    try {
+      this.checks = await this.slotsService.checkAvailability(this.checkFromDateId, this.checkToDateId, this.providerId);
+    } catch (error: any) {
+      console.error('❌ Slots: Error checking availability:', error);
+      this.showError(error.message || 'Unable to check availability.');
+    } finally {
+      this.checking = false;
+      this.cdr.detectChanges();
+    }
+  }
+
+  async repairCheck(check: DateCheck) {
+    if (this.repairing) {
+      return;
+    }
+
+    this.repairing = true;
+    this.cdr.detectChanges();
+    await this.repair(check);
+    this.repairing = false;
+    this.cdr.detectChanges();
+  }
+
+  async repairAll() {
+    if (this.repairing || !this.checks) {
+      return;
+    }
+
+    this.repairing = true;
+    this.cdr.detectChanges();
+    // One transaction per date, stopping at the first failure so its error is shown
+    for (const check of this.checks.filter(c => c.repair)) {
+      if (!(await this.repair(check))) {
+        break;
+      }
+    }
+    this.repairing = false;
+    this.cdr.detectChanges();
+  }
+
+  /**
+   * Repair one date and keep only what still needs staff in the list
+   */
+  private async repair(check: DateCheck): Promise<boolean> {
+    const result = await this.slotsService.repairDate(check.dateId, check.providerId);
+    if (!result.success) {
+      this.showError(result.error || 'Unable to repair this date.');
+      return false;
+    }
+
+    const remaining = (result.check?.discrepancies ?? []).filter(discrepancy => !isRepairable(discrepancy));
+    this.checks = (this.checks ?? [])
+      .map(c => c === check ? { ...check, discrepancies: remaining, repair: null } : c)
+      .filter(c => c.discrepancies.length > 0);
+
+    if (check.dateId === this.selectedDateId) {
+      await this.loadSchedule();
+    }
+    this.cdr.detectChanges();
+    return true;
+  }
+
+  get repairableCount(): number {
+    return this.checks?.filter(check => check.repair).length ?? 0;
+  }
+
+  needsStaff(discrepancy: AvailabilityDiscrepancy): boolean {
+    return !isRepairable(discrepancy);
+  }
+
+  checkDateLabel(check: DateCheck): string {
+    return getDayFromDateId(check.dateId).toLocaleDateString('en-US', { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' });
+  }
+
+  seatsLabel(view: SlotView): string {
+    return `${view.slot.booked} / ${view.slot.capacity} booked`;
+  }
+
+  statusLabel(status: AppointmentStatus): string {
+    return STATUS_LABELS[status];
+  }
+
+  private showError(message: string) {
+    this.errorMessage = message;
+    this.showErrorModal = true;
+    this.cdr.detectChanges();
+  }
 
+  onErrorModalClose() {
+    this.showErrorModal = false;
+  }
 }
@@ -0,0 +1,135 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp,
+  Transaction
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import type { Appointment } from './appointments.service';
+
+export type AppointmentAction = 'booked' | 'cancelled' | 'rescheduled' | 'status-changed';
+
+/**
+ * The fields of an appointment that matter when reviewing what changed
+ */
+export type AppointmentSnapshot = Pick<Appointment, 'status' | 'dateId' | 'date' | 'timeId' | 'time'> &
+  Partial<Pick<Appointment, 'typeId' | 'providerId' | 'startsAt' | 'cancellationReason' | 'rescheduledFrom' | 'rescheduledTo' | 'seriesId'>>;
+
+/**
+ * Where a change was made from
+ */
+export interface ClientMetadata {
+  userAgent: string;
+  language: string;
+  timeZone: string;
+}
+
+/**
+ * One change to an appointment, stored at appointment_events/{eventId}
+ * Events are append-only (firestore.rules), so they stay as they were written
+ */
+export interface AppointmentEvent {
+  eventId: string;
+  appointmentId: string;
+  userId: string;  // the patient the appointment belongs to
+  actorId: string; // who made the change - the patient or a staff member
+  staffInitiated?: boolean; // true when staff changed a patient's appointment for them (missing on older events)
+  action: AppointmentAction;
+  before: AppointmentSnapshot | null; // null when the appointment was created
+  after: AppointmentSnapshot;
+  client: ClientMetadata;
+  createdAt: Timestamp;
+}
+
+/**
+ * The keys of source that are set - Firestore rejects undefined values
+ */
+function pickDefined<T, K extends keyof T>(source: T, keys: readonly K[]): Partial<Pick<T, K>> {
+  const picked: Partial<Pick<T, K>> = {};
+  keys.forEach(key => {
+    if (source[key] !== undefined) {
+      picked[key] = source[key];
+    }
+  });
+  return picked;
+}
+
+/**
+ * Snapshot of an appointment (or of the fields about to be written)
+ * Optional fields are left out rather than written as undefined
+ */
+export function getAppointmentSnapshot(appointment: AppointmentSnapshot): AppointmentSnapshot {
+  const { status, dateId, date, timeId, time } = appointment;
+  const optional = ['typeId', 'providerId', 'startsAt', 'cancellationReason', 'rescheduledFrom', 'rescheduledTo', 'seriesId'] as const;
+
+  return { status, dateId, date, timeId, time, ...pickDefined(appointment, optional) };
+}
+
+/**
+ * Browser details recorded with each event (placeholders during SSR)
+ */
+export function getClientMetadata(): ClientMetadata {
+  if (typeof navigator === 'undefined') {
+    return { userAgent: 'server', language: 'unknown', timeZone: 'unknown' };
+  }
+
+  return {
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'unknown'
+  };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AppointmentEventsService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * Inside a transaction: append an event for a change being written in the same transaction
+   * Anyone acting on another user's appointment can only be staff (firestore.rules)
+   */
+  recordEvent(
+    transaction: Transaction,
+    event: Pick<AppointmentEvent, 'appointmentId' | 'userId' | 'actorId' | 'action' | 'before' | 'after'>
+  ): void {
+    const eventRef = doc(collection(this.firestore, 'appointment_events'));
+    transaction.set(eventRef, {
+      ...event,
+      eventId: eventRef.id,
+      staffInitiated: event.actorId !== event.userId,
+      client: getClientMetadata(),
+      createdAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Every event for an appointment, oldest first
+   * Patients can only read their own events, so their query is also filtered by userId
+   */
+  async getEvents(appointmentId: string): Promise<AppointmentEvent[]> {
+    const currentUser = await this.authService.waitForAuthInit();
+    if (!currentUser) {
+      return [];
+    }
+
+    const eventsRef = collection(this.firestore, 'appointment_events');
+    const constraints = [where('appointmentId', '==', appointmentId)];
+    if (!(await this.authService.isAdmin())) {
+      constraints.push(where('userId', '==', currentUser.uid));
+    }
+
+    const snapshot = await getDocs(query(eventsRef, ...constraints));
+    return snapshot.docs
+      .map(eventDoc => eventDoc.data() as AppointmentEvent)
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  }
+}
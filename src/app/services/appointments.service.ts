@@ -11,17 +11,56 @@ import {
   Timestamp,
   serverTimestamp,
   getDoc,
-  arrayRemove,
+  deleteField,
+  DocumentReference,
+  Transaction,
+  onSnapshot,
   arrayUnion
 } from '@angular/fire/firestore';
+import { Observable } from 'rxjs';
 import { Auth } from '@angular/fire/auth';
 import { AuthService } from './auth.service';
+import { SlotHoldsService, SlotLock, getSlotLockId, countOtherActiveHolds } from './slot-holds.service';
+import { WaitlistService, WaitlistEntry, isOfferActive } from './waitlist.service';
+import { SeatChange, SlotCapacity, adjustSeats, getRemainingSeats, getSeatChange } from '../utils/slot-capacity';
+import { RecurrenceRule, MAX_SERIES_OCCURRENCES, getOccurrenceDateIds } from '../utils/recurrence';
+import { BookingPolicyService } from './booking-policy.service';
+import { Provider, getDatePath } from './providers.service';
+import { AppointmentAction, AppointmentEventsService, AppointmentSnapshot, getAppointmentSnapshot } from './appointment-events.service';
+import { ClosuresService } from './closures.service';
+import {
+  BookedTime,
+  BookingError,
+  BookingErrorCode,
+  BookingPolicy,
+  getActiveLimitViolation,
+  getBookedTime,
+  getBookingWindowViolation,
+  getCancellationViolation,
+  getSameDayViolation
+} from '../utils/booking-policy';
+import { AppointmentStatus, STATUS_LABELS, canTransition, isActiveStatus, isChangeableStatus } from '../utils/appointment-status';
+import { getSlotStart } from '../utils/slot-time';
+import { CLINIC_TIME_ZONE, getClinicDateId } from '../utils/clinic-time';
+import { Closure, getClosureMessage, getClosureOn } from '../utils/closures';
+import {
+  AppointmentType,
+  DEFAULT_APPOINTMENT_TYPES,
+  getAppointmentTimeIds,
+  getCoveredTimeIds,
+  getSlotsNeeded,
+  SLOT_MINUTES
+} from '../utils/appointment-types';
 
 export interface DateDoc {
   dateId: string;
   date: string;
   displayDate: string;
-  availableTimeIds: string[];
+  availableTimeIds: string[]; // timeIds with at least one free seat
+  slots?: { [timeId: string]: SlotCapacity }; // missing = single-seat slot (legacy)
+  seatChanges?: { [appointmentId: string]: SeatChange }; // appointments the last booking or cancellation moved seats for
+  providerId?: string; // missing on the shared schedule
+  timeZone?: string;   // clinic zone the date and its times are written in (missing on older dates)
   createdAt: Timestamp;
 }
 
@@ -37,15 +76,67 @@ export interface TimeDoc {
 export interface Appointment {
   appointmentId: string;
   dateId: string;
-  timeId: string;
-  userId: string;
+  timeId: string;           // start slot
+  timeIds?: string[];       // every slot the visit covers, starting with timeId
+  userId: string;           // the patient
+  bookedBy?: string;        // uid of whoever made the booking - staff when booked for the patient (missing on older bookings)
   date: string;
   time: string;
-  status: 'confirmed' | 'cancelled';
+  typeId?: string;
+  typeName?: string;
+  durationMinutes?: number;
+  providerId?: string;      // missing on bookings made before providers existed
+  providerName?: string;
+  status: AppointmentStatus;
+  statusHistory?: StatusChange[]; // every transition, oldest first (missing on older bookings)
   createdAt: Timestamp;
+  startsAt?: Timestamp;     // slot start as an instant (missing on older bookings)
+  timeZone?: string;        // clinic zone that date and time are written in (missing on older bookings)
   cancelledAt?: Timestamp;
+  cancellationReason?: string; // optional note from whoever cancelled
+  cancelledBy?: 'patient' | 'staff'; // missing on older cancellations
+  rescheduledFrom?: string; // appointmentId this booking replaced
+  rescheduledTo?: string;   // appointmentId that replaced this booking
+  seriesId?: string;        // shared by every booking made from one recurring series
+}
+
+/**
+ * One entry in an appointment's status history
+ */
+export interface StatusChange {
+  status: AppointmentStatus;
+  changedAt: Timestamp;
+  changedBy: string; // uid of the patient or staff member
 }
 
+/**
+ * Outcome of a booking attempt, stored at booking_requests/{requestId}
+ * The requestId is a client-generated idempotency key, so a retried attempt returns
+ * the appointments it already made instead of booking them again
+ */
+export interface BookingRequest {
+  requestId: string;
+  userId: string;
+  appointmentIds: string[];
+  seriesId?: string;
+  createdAt: Timestamp;
+}
+
+/**
+ * One date of a recurring series, checked before anything is booked
+ */
+export interface SeriesOccurrence {
+  dateId: string;
+  date: string;
+  available: boolean;
+  reason?: string; // why the occurrence can't be booked
+}
+
+/**
+ * Most occurrences of a series cancelled in one transaction (see cancelSeriesFrom)
+ */
+const SERIES_CANCEL_CHUNK = 3;
+
 @Injectable({
   providedIn: 'root'
 })
@@ -53,6 +144,11 @@ export class AppointmentsService {
   private firestore = inject(Firestore);
   private auth = inject(Auth);
   private authService = inject(AuthService);
+  private slotHoldsService = inject(SlotHoldsService);
+  private waitlistService = inject(WaitlistService);
+  private bookingPolicyService = inject(BookingPolicyService);
+  private appointmentEventsService = inject(AppointmentEventsService);
+  private closuresService = inject(ClosuresService);
 
   /**
    * Get all times data (cached for efficiency)
@@ -64,6 +160,11 @@ export class AppointmentsService {
    */
   private datesCache: Map<string, { data: DateDoc; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Appointment type catalog (rarely changes, cached for the session)
+   */
+  private typesCache: AppointmentType[] | null = null;
   
   async getAllTimes(): Promise<TimeDoc[]> {
     if (this.timesCache.size > 0) {
@@ -78,22 +179,205 @@ export class AppointmentsService {
     return times;
   }
 
+  /**
+   * Get the appointment type catalog, falling back to the built-in types until it is seeded
+   */
+  async getAppointmentTypes(): Promise<AppointmentType[]> {
+    if (this.typesCache) {
+      return this.typesCache;
+    }
+
+    const typesRef = collection(this.firestore, 'appointment_types');
+    const snapshot = await getDocs(typesRef);
+    const types = snapshot.docs
+      .map(doc => doc.data() as AppointmentType)
+      .sort((a, b) => a.durationMinutes - b.durationMinutes);
+
+    this.typesCache = types.length > 0 ? types : DEFAULT_APPOINTMENT_TYPES;
+    return this.typesCache;
+  }
+
+  /**
+   * Slots a visit of this type starting at startTimeId takes up
+   * No typeId means a single-slot visit (e.g. claiming a waitlist offer)
+   */
+  private async resolveCoveredTimeIds(
+    startTimeId: string,
+    typeId?: string
+  ): Promise<{ type: AppointmentType | null; timeIds: string[] }> {
+    if (!typeId) {
+      return { type: null, timeIds: [startTimeId] };
+    }
+
+    const types = await this.getAppointmentTypes();
+    const type = types.find(t => t.typeId === typeId);
+    if (!type) {
+      throw new Error('Appointment type not found');
+    }
+
+    const timeIds = getCoveredTimeIds(await this.getAllTimes(), startTimeId, getSlotsNeeded(type.durationMinutes));
+    if (!timeIds) {
+      throw new Error(`A ${type.durationMinutes}-minute ${type.name} doesn't fit at this start time`);
+    }
+
+    return { type, timeIds };
+  }
+
+  /**
+   * Inside a transaction: check every covered slot has a seat that isn't held by another patient
+   * Returns the lock documents so the caller can drop the user's own holds once the booking is written
+   */
+  private async readCoveredLocks(
+    transaction: Transaction,
+    dateId: string,
+    dateData: DateDoc,
+    timeIds: string[],
+    userId: string,
+    providerId?: string
+  ): Promise<{ lockRef: DocumentReference; lock: SlotLock | null }[]> {
+    const locks = [];
+
+    for (const timeId of timeIds) {
+      const remainingSeats = getRemainingSeats(dateData, timeId);
+      if (remainingSeats === 0) {
+        throw new Error('Time slot is no longer available');
+      }
+
+      // Reject slots whose remaining seats are all held by others; our own hold becomes the booking
+      const lockRef = doc(this.firestore, 'slot_locks', getSlotLockId(dateId, timeId, providerId));
+      const lockDoc = await transaction.get(lockRef);
+      const lock = lockDoc.exists() ? lockDoc.data() as SlotLock : null;
+      if (countOtherActiveHolds(lock, userId) >= remainingSeats) {
+        throw new Error('This time slot is being held by another patient');
+      }
+
+      locks.push({ lockRef, lock });
+    }
+
+    return locks;
+  }
+
+  private releaseOwnHolds(
+    transaction: Transaction,
+    locks: { lockRef: DocumentReference; lock: SlotLock | null }[],
+    userId: string
+  ) {
+    locks.forEach(({ lockRef, lock }) => {
+      if (lock?.holds?.[userId]) {
+        transaction.update(lockRef, { [`holds.${userId}`]: deleteField() });
+      }
+    });
+  }
+
+  /**
+   * Inside a transaction: the provider being booked (null for the shared schedule)
+   */
+  private async readProvider(transaction: Transaction, providerId?: string): Promise<Provider | null> {
+    if (!providerId) {
+      return null;
+    }
+
+    const providerDoc = await transaction.get(doc(this.firestore, 'providers', providerId));
+    if (!providerDoc.exists() || !(providerDoc.data() as Provider).active) {
+      throw new Error('Provider not found');
+    }
+
+    return providerDoc.data() as Provider;
+  }
+
+  /**
+   * Provider fields stored on an appointment (nothing for the shared schedule)
+   */
+  private providerFields(provider: Provider | null) {
+    return provider
+      ? { providerId: provider.providerId, providerName: provider.name }
+      : {};
+  }
+
+  /**
+   * Status fields for a new appointment - pending when the policy requires staff approval
+   * Bookings staff make for a patient are approved as they are made
+   */
+  private initialStatusFields(policy: BookingPolicy, userId: string, byStaff = false) {
+    const status: AppointmentStatus = policy.requireApproval && !byStaff ? 'pending' : 'confirmed';
+    return {
+      status,
+      statusHistory: [{ status, changedAt: Timestamp.now(), changedBy: userId }]
+    };
+  }
+
+  /**
+   * Status fields for moving an existing appointment on (serverTimestamp can't go inside arrays)
+   */
+  private statusUpdate(status: AppointmentStatus, userId: string) {
+    return {
+      status,
+      statusHistory: arrayUnion({ status, changedAt: Timestamp.now(), changedBy: userId })
+    };
+  }
+
+  /**
+   * Inside a transaction: audit event for an appointment being created
+   */
+  private recordCreation(transaction: Transaction, appointment: AppointmentSnapshot & Pick<Appointment, 'appointmentId' | 'userId'>, actorId: string) {
+    this.appointmentEventsService.recordEvent(transaction, {
+      appointmentId: appointment.appointmentId,
+      userId: appointment.userId,
+      actorId,
+      action: 'booked',
+      before: null,
+      after: getAppointmentSnapshot(appointment)
+    });
+  }
+
+  /**
+   * Inside a transaction: audit event for changes being written to an existing appointment
+   */
+  private recordChange(
+    transaction: Transaction,
+    before: Appointment,
+    actorId: string,
+    action: AppointmentAction,
+    changes: Partial<AppointmentSnapshot>
+  ) {
+    this.appointmentEventsService.recordEvent(transaction, {
+      appointmentId: before.appointmentId,
+      userId: before.userId,
+      actorId,
+      action,
+      before: getAppointmentSnapshot(before),
+      after: getAppointmentSnapshot({ ...before, ...changes })
+    });
+  }
+
+  /**
+   * Type fields stored on an appointment (nothing for untyped single-slot visits)
+   */
+  private typeFields(type: AppointmentType | null) {
+    return type
+      ? { typeId: type.typeId, typeName: type.name, durationMinutes: type.durationMinutes }
+      : {};
+  }
+
   /**
    * Get a specific date with its available time slots (with caching)
+   * Pass providerId for a provider's schedule; the cache is keyed by document path
    */
-  async getDateAvailability(dateId: string): Promise<DateDoc | null> {
+  async getDateAvailability(dateId: string, providerId?: string): Promise<DateDoc | null> {
+    const datePath = getDatePath(dateId, providerId);
+
     // Check cache first
-    const cached = this.datesCache.get(dateId);
+    const cached = this.datesCache.get(datePath);
     const now = Date.now();
     
     if (cached && (now - cached.timestamp) < this.CACHE_DURATION) {
-      console.log(`📦 [Cache Hit] Date ${dateId} loaded from cache`);
+      console.log(`📦 [Cache Hit] Date ${datePath} loaded from cache`);
       return cached.data;
     }
     
     // Fetch from Firestore
-    console.log(`🔄 [Cache Miss] Fetching date ${dateId} from Firestore`);
-    const dateRef = doc(this.firestore, 'dates', dateId);
+    console.log(`🔄 [Cache Miss] Fetching date ${datePath} from Firestore`);
+    const dateRef = doc(this.firestore, datePath);
     const dateDoc = await getDoc(dateRef);
     
     if (!dateDoc.exists()) {
@@ -103,7 +387,7 @@ export class AppointmentsService {
     const data = dateDoc.data() as DateDoc;
     
     // Update cache
-    this.datesCache.set(dateId, { data, timestamp: now });
+    this.datesCache.set(datePath, { data, timestamp: now });
     
     return data;
   }
@@ -111,55 +395,235 @@ export class AppointmentsService {
   /**
    * Clear date cache (call after booking to refresh availability)
    */
-  clearDateCache(dateId?: string) {
+  clearDateCache(dateId?: string, providerId?: string) {
     if (dateId) {
-      this.datesCache.delete(dateId);
-      console.log(`🗑️ Cleared cache for date: ${dateId}`);
+      const datePath = getDatePath(dateId, providerId);
+      this.datesCache.delete(datePath);
+      console.log(`🗑️ Cleared cache for date: ${datePath}`);
     } else {
       this.datesCache.clear();
       console.log(`🗑️ Cleared entire date cache`);
     }
   }
 
+  /**
+   * Clear the times cache (call after adding times to the schedule)
+   */
+  clearTimesCache() {
+    this.timesCache.clear();
+  }
+
+  /**
+   * Upcoming active appointments for a user (what maxActiveAppointments limits and sameDayRule checks)
+   */
+  private async getUpcomingAppointments(userId: string): Promise<Appointment[]> {
+    const appointmentsRef = collection(this.firestore, 'appointments');
+    const snapshot = await getDocs(query(appointmentsRef, where('userId', '==', userId)));
+
+    const now = new Date();
+    const todayId = getClinicDateId(now);
+
+    return snapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .filter(apt => isActiveStatus(apt.status))
+      .filter(apt => apt.startsAt ? apt.startsAt.toMillis() > now.getTime() : apt.date >= todayId);
+  }
+
+  /**
+   * The time a new visit of slotCount slots would occupy
+   */
+  private getCandidateTime(dateId: string, time: TimeDoc, slotCount: number): BookedTime {
+    const startsAt = getSlotStart(dateId, time);
+    return { dateId, startsAt, endsAt: new Date(startsAt.getTime() + slotCount * SLOT_MINUTES * 60000) };
+  }
+
+  /**
+   * Throw if the new visit breaks sameDayRule against the patient's other upcoming appointments
+   */
+  private assertNoSameDayClash(policy: BookingPolicy, upcoming: Appointment[], candidate: BookedTime) {
+    const violation = getSameDayViolation(policy, upcoming.map(getBookedTime), candidate);
+    if (violation) {
+      throw new BookingError(violation.code, violation.message);
+    }
+  }
+
+  /**
+   * Throw if the clinic is closed on any of the dates
+   * Closures are ranges, which firestore.rules can't look up, so this is enforced by the app only
+   */
+  private assertNotClosed(closures: Closure[], dateIds: string[]) {
+    for (const dateId of dateIds) {
+      const closure = getClosureOn(closures, dateId);
+      if (closure) {
+        throw new BookingError('clinic-closed', getClosureMessage(closure));
+      }
+    }
+  }
+
+  /**
+   * A booking attempt already completed under this idempotency key, if any
+   */
+  private async getBookingRequest(requestId?: string): Promise<BookingRequest | null> {
+    if (!requestId) {
+      return null;
+    }
+
+    const requestDoc = await getDoc(doc(this.firestore, 'booking_requests', requestId));
+    return requestDoc.exists() ? requestDoc.data() as BookingRequest : null;
+  }
+
+  /**
+   * Failure result for a caught error - policy violations also carry their code
+   */
+  private bookingFailure(error: any): { success: false; error: string; code?: BookingErrorCode } {
+    return {
+      success: false,
+      error: error.message,
+      ...(error instanceof BookingError ? { code: error.code } : {})
+    };
+  }
+
+  /**
+   * Dates collection for a provider's schedule, or the shared one
+   */
+  private datesCollection(providerId?: string) {
+    return providerId
+      ? collection(this.firestore, 'providers', providerId, 'dates')
+      : collection(this.firestore, 'dates');
+  }
+
   /**
    * Get all dates (for calendar display)
    */
-  async getAllDates(): Promise<DateDoc[]> {
-    const datesRef = collection(this.firestore, 'dates');
+  async getAllDates(providerId?: string): Promise<DateDoc[]> {
+    const datesRef = this.datesCollection(providerId);
     const snapshot = await getDocs(datesRef);
     return snapshot.docs.map(doc => doc.data() as DateDoc);
   }
 
+  /**
+   * Live stream of all dates (for calendar display)
+   * Backed by onSnapshot, so bookings by other patients show up without a refresh.
+   * Each snapshot also refreshes datesCache.
+   */
+  watchAllDates(providerId?: string): Observable<DateDoc[]> {
+    return new Observable<DateDoc[]>(subscriber => {
+      const datesRef = this.datesCollection(providerId);
+      return onSnapshot(datesRef, snapshot => {
+        const now = Date.now();
+        const dates = snapshot.docs.map(doc => doc.data() as DateDoc);
+        dates.forEach(data => this.datesCache.set(getDatePath(data.dateId, providerId), { data, timestamp: now }));
+        subscriber.next(dates);
+      }, error => subscriber.error(error));
+    });
+  }
+
+  /**
+   * Live stream of one date's availability (null if the date doesn't exist)
+   */
+  watchDateAvailability(dateId: string, providerId?: string): Observable<DateDoc | null> {
+    return new Observable<DateDoc | null>(subscriber => {
+      const datePath = getDatePath(dateId, providerId);
+      return onSnapshot(doc(this.firestore, datePath), dateDoc => {
+        if (!dateDoc.exists()) {
+          this.datesCache.delete(datePath);
+          subscriber.next(null);
+          return;
+        }
+
+        const data = dateDoc.data() as DateDoc;
+        this.datesCache.set(datePath, { data, timestamp: Date.now() });
+        subscriber.next(data);
+      }, error => subscriber.error(error));
+    });
+  }
+
   /**
    * Get available time slots for a specific date
    */
-  async getAvailableTimesForDate(dateId: string): Promise<TimeDoc[]> {
-    const dateData = await this.getDateAvailability(dateId);
+  async getAvailableTimesForDate(dateId: string, providerId?: string): Promise<TimeDoc[]> {
+    const dateData = await this.getDateAvailability(dateId, providerId);
     
     if (!dateData || dateData.availableTimeIds.length === 0) {
       return [];
     }
 
-    // Get all times and filter by available IDs
+    // Get all times and filter by slots with free seats
     const allTimes = await this.getAllTimes();
-    return allTimes.filter(time => dateData.availableTimeIds.includes(time.timeId));
+    return allTimes.filter(time => getRemainingSeats(dateData, time.timeId) > 0);
   }
 
   /**
-   * Book an appointment (creates appointment and removes timeId from date's availableTimeIds)
+   * Book an appointment (creates appointment and takes a seat on every slot its type covers)
    * Uses Firestore transaction for atomicity
+   * Pass waitlistEntryId when claiming a waitlist offer so the entry is marked claimed in the same transaction
+   * Pass providerId to book on a provider's schedule
+   * Pass idempotencyKey (one per booking attempt) so retrying the attempt returns the original appointment
+   * Pass patientId when staff book for a patient - the patient's limits still apply, the booking window doesn't
    */
-  async bookAppointment(dateId: string, timeId: string): Promise<{ success: boolean; appointmentId?: string; error?: string }> {
+  async bookAppointment(
+    dateId: string,
+    timeId: string,
+    options: { waitlistEntryId?: string; typeId?: string; providerId?: string; idempotencyKey?: string; patientId?: string } = {}
+  ): Promise<{ success: boolean; appointmentId?: string; error?: string; code?: BookingErrorCode }> {
     const currentUser = await this.authService.waitForAuthInit();
     
     if (!currentUser) {
       return { success: false, error: 'User not authenticated' };
     }
 
+    const requestId = options.idempotencyKey;
+    const patientId = options.patientId ?? currentUser.uid;
+    const byStaff = patientId !== currentUser.uid;
+
     try {
+      if (byStaff && !(await this.authService.isAdmin())) {
+        throw new Error('Only staff can book for another patient');
+      }
+
+      // Checked before the policy, since the original booking now counts against the patient
+      const previous = await this.getBookingRequest(requestId);
+      if (previous) {
+        console.log('♻️ Booking attempt already completed:', requestId);
+        return { success: true, appointmentId: previous.appointmentIds[0] };
+      }
+
+      const [policy, upcoming, allTimes, closures] = await Promise.all([
+        this.bookingPolicyService.getPolicy(),
+        this.getUpcomingAppointments(patientId),
+        this.getAllTimes(),
+        this.closuresService.getClosures()
+      ]);
+
+      this.assertNotClosed(closures, [dateId]);
+
+      const limitViolation = getActiveLimitViolation(policy, upcoming.length);
+      if (limitViolation) {
+        throw new BookingError('active-limit', limitViolation);
+      }
+
+      const { type, timeIds } = await this.resolveCoveredTimeIds(timeId, options.typeId);
+      const providerId = options.providerId;
+
+      const startTime = allTimes.find(t => t.timeId === timeId);
+      if (startTime) {
+        this.assertNoSameDayClash(policy, upcoming, this.getCandidateTime(dateId, startTime, timeIds.length));
+      }
+
       const appointmentId = await runTransaction(this.firestore, async (transaction) => {
-        // Check if timeId is still in the date's availableTimeIds array
-        const dateRef = doc(this.firestore, 'dates', dateId);
+        // A concurrent retry of the same attempt may have finished since the check above
+        const requestRef = requestId ? doc(this.firestore, 'booking_requests', requestId) : null;
+        if (requestRef) {
+          const requestDoc = await transaction.get(requestRef);
+          if (requestDoc.exists()) {
+            return (requestDoc.data() as BookingRequest).appointmentIds[0];
+          }
+        }
+
+        const provider = await this.readProvider(transaction, providerId);
+
+        // Check every covered slot still has a free seat
+        const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
         const dateDoc = await transaction.get(dateRef);
 
         if (!dateDoc.exists()) {
@@ -167,9 +631,7 @@ export class AppointmentsService {
         }
 
         const dateData = dateDoc.data() as DateDoc;
-        if (!dateData.availableTimeIds.includes(timeId)) {
-          throw new Error('Time slot is no longer available');
-        }
+        const locks = await this.readCoveredLocks(transaction, dateId, dateData, timeIds, currentUser.uid, providerId);
 
         // Get time data for display
         const timeRef = doc(this.firestore, 'times', timeId);
@@ -179,34 +641,83 @@ export class AppointmentsService {
         }
         const timeData = timeDoc.data() as TimeDoc;
 
-        // Remove timeId from availableTimeIds array
-        transaction.update(dateRef, { 
-          availableTimeIds: arrayRemove(timeId) 
+        const startsAt = getSlotStart(dateId, timeData);
+        const windowViolation = !byStaff && getBookingWindowViolation(policy, startsAt);
+        if (windowViolation) {
+          throw new BookingError('booking-window', windowViolation);
+        }
+
+        // Claiming a waitlist offer - the offer must still be open and for this slot
+        const entryRef = options.waitlistEntryId
+          ? doc(this.firestore, 'waitlist', options.waitlistEntryId)
+          : null;
+        if (entryRef) {
+          const entryDoc = await transaction.get(entryRef);
+          const entry = entryDoc.exists() ? entryDoc.data() as WaitlistEntry : null;
+          if (!entry || entry.userId !== patientId) {
+            throw new Error('Waitlist entry not found');
+          }
+          if (!isOfferActive(entry) || entry.dateId !== dateId || entry.offeredTimeId !== timeId ||
+              entry.offeredProviderId !== providerId) {
+            throw new Error('This waitlist offer has expired');
+          }
+        }
+
+        // Take a seat on each slot (drops a timeId from availableTimeIds once it is full)
+        const appointmentRef = doc(collection(this.firestore, 'appointments'));
+        transaction.update(dateRef, {
+          ...adjustSeats(dateData, timeIds, 1),
+          seatChanges: getSeatChange(appointmentRef.id, timeIds, 1)
         });
+        this.releaseOwnHolds(transaction, locks, currentUser.uid);
 
         // Create appointment
-        const appointmentRef = doc(collection(this.firestore, 'appointments'));
-        transaction.set(appointmentRef, {
+        const appointment = {
           appointmentId: appointmentRef.id,
           dateId,
           timeId,
-          userId: currentUser.uid,
+          timeIds,
+          userId: patientId,
+          bookedBy: currentUser.uid,
           date: dateData.date,
           time: timeData.time,
-          status: 'confirmed',
-          createdAt: serverTimestamp()
-        });
+          ...this.typeFields(type),
+          ...this.providerFields(provider),
+          ...this.initialStatusFields(policy, currentUser.uid, byStaff),
+          createdAt: serverTimestamp(),
+          startsAt: Timestamp.fromDate(startsAt),
+          timeZone: CLINIC_TIME_ZONE
+        };
+        transaction.set(appointmentRef, appointment);
+        this.recordCreation(transaction, appointment, currentUser.uid);
+
+        if (entryRef) {
+          transaction.update(entryRef, {
+            status: 'claimed',
+            claimedAppointmentId: appointmentRef.id
+          });
+        }
+
+        if (requestRef) {
+          transaction.set(requestRef, {
+            requestId,
+            userId: currentUser.uid,
+            appointmentIds: [appointmentRef.id],
+            createdAt: serverTimestamp()
+          });
+        }
 
         return appointmentRef.id;
       });
 
       // Clear cache for this date after successful booking
-      this.clearDateCache(dateId);
+      this.clearDateCache(dateId, providerId);
+      this.slotHoldsService.clearCurrentHold(dateId, timeId, providerId);
 
       return { success: true, appointmentId };
     } catch (error: any) {
       console.error('Error booking appointment:', error);
-      return { success: false, error: error.message };
+      return this.bookingFailure(error);
     }
   }
 
@@ -256,10 +767,11 @@ export class AppointmentsService {
     console.log('📋 All appointments:', appointments);
     
     // Filter and sort client-side
-    const confirmedAppointments = appointments.filter(apt => apt.status === 'confirmed');
-    console.log('✅ Confirmed appointments:', confirmedAppointments);
+    // Pending, confirmed and checked-in - finished visits aren't upcoming
+    const activeAppointments = appointments.filter(apt => isActiveStatus(apt.status));
+    console.log('✅ Active appointments:', activeAppointments);
     
-    const sortedAppointments = confirmedAppointments.sort((a, b) => a.date.localeCompare(b.date));
+    const sortedAppointments = activeAppointments.sort((a, b) => a.date.localeCompare(b.date));
     console.log('📅 Sorted appointments:', sortedAppointments);
     
     // Check if userIds match
@@ -272,9 +784,60 @@ export class AppointmentsService {
   }
 
   /**
-   * Cancel an appointment (marks as cancelled and adds timeId back to date's availableTimeIds)
+   * Every patient's appointments, newest first (staff only - an empty list for anyone else)
+   * The admin appointments page filters by date, status and patient client-side
    */
-  async cancelAppointment(appointmentId: string): Promise<{ success: boolean; error?: string }> {
+  async getAllAppointments(): Promise<Appointment[]> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser || !(await this.authService.isAdmin())) {
+      return [];
+    }
+
+    const snapshot = await getDocs(collection(this.firestore, 'appointments'));
+    return snapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Every appointment the current user has ever booked, including past and cancelled ones
+   * Newest first; the history table filters and sorts client-side
+   */
+  async getAppointmentHistory(): Promise<Appointment[]> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return [];
+    }
+
+    const appointmentsRef = collection(this.firestore, 'appointments');
+    const snapshot = await getDocs(query(appointmentsRef, where('userId', '==', currentUser.uid)));
+
+    return snapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Cancellation fields, with the reason trimmed and left out when blank
+   */
+  private cancellationFields(userId: string, reason?: string, byStaff = false) {
+    const trimmed = reason?.trim().slice(0, 500);
+    return {
+      ...this.statusUpdate('cancelled', userId),
+      cancelledAt: serverTimestamp(),
+      cancelledBy: byStaff ? 'staff' as const : 'patient' as const,
+      ...(trimmed ? { cancellationReason: trimmed } : {})
+    };
+  }
+
+  /**
+   * Cancel an appointment (marks as cancelled and gives back a seat on every slot it covered)
+   * The freed start slot is offered to the first patient on the waitlist for that date/time
+   * Staff can cancel any patient's appointment, at any time, on the patient's behalf
+   */
+  async cancelAppointment(appointmentId: string, reason?: string): Promise<{ success: boolean; error?: string }> {
     const currentUser = await this.authService.waitForAuthInit();
     
     if (!currentUser) {
@@ -282,8 +845,18 @@ export class AppointmentsService {
     }
 
     try {
-      await runTransaction(this.firestore, async (transaction) => {
-        // Verify appointment belongs to current user
+      const isStaff = await this.authService.isAdmin();
+
+      // Queries can't run inside a transaction, so look up the waitlist first
+      // (each entry is re-checked inside the transaction)
+      const existing = await getDoc(doc(this.firestore, 'appointments', appointmentId));
+      const waitlistQueue = existing.exists()
+        ? await this.waitlistService.getQueue(existing.data()['dateId'], existing.data()['timeId'], existing.data()['providerId'])
+        : [];
+      const policy = await this.bookingPolicyService.getPolicy();
+
+      const cancelled = await runTransaction(this.firestore, async (transaction) => {
+        // Verify appointment belongs to current user (or that staff are cancelling it for them)
         const appointmentRef = doc(this.firestore, 'appointments', appointmentId);
         const appointmentDoc = await transaction.get(appointmentRef);
 
@@ -292,27 +865,677 @@ export class AppointmentsService {
         }
 
         const appointment = appointmentDoc.data() as Appointment;
-        if (appointment.userId !== currentUser.uid) {
+        const byStaff = appointment.userId !== currentUser.uid;
+        if (byStaff && !isStaff) {
           throw new Error('Unauthorized');
         }
+        if (!canTransition(appointment.status, 'cancelled')) {
+          throw new Error(`${STATUS_LABELS[appointment.status]} appointments can't be cancelled`);
+        }
+
+        // Bookings made before startsAt existed aren't subject to the cutoff; staff aren't either
+        const cutoffViolation = !byStaff && appointment.startsAt && getCancellationViolation(policy, appointment.startsAt.toDate());
+        if (cutoffViolation) {
+          throw new Error(cutoffViolation);
+        }
+
+        const dateRef = doc(this.firestore, getDatePath(appointment.dateId, appointment.providerId));
+        const dateDoc = await transaction.get(dateRef);
+        if (!dateDoc.exists()) {
+          throw new Error('Date not found');
+        }
+
+        const applyOffer = await this.waitlistService.prepareOffer(
+          transaction,
+          waitlistQueue,
+          appointment.appointmentId,
+          appointment.dateId,
+          appointment.timeId,
+          appointment.time,
+          appointment.providerId
+        );
 
-        // Add timeId back to date's availableTimeIds array
-        const dateRef = doc(this.firestore, 'dates', appointment.dateId);
-        transaction.update(dateRef, { 
-          availableTimeIds: arrayUnion(appointment.timeId) 
+        // Give the seats back (re-adds the timeIds to availableTimeIds)
+        const timeIds = getAppointmentTimeIds(appointment);
+        transaction.update(dateRef, {
+          ...adjustSeats(dateDoc.data() as DateDoc, timeIds, -1),
+          seatChanges: getSeatChange(appointment.appointmentId, timeIds, -1)
         });
 
         // Update appointment status
-        transaction.update(appointmentRef, {
+        const cancellation = this.cancellationFields(currentUser.uid, reason, byStaff);
+        transaction.update(appointmentRef, cancellation);
+        this.recordChange(transaction, appointment, currentUser.uid, 'cancelled', {
           status: 'cancelled',
-          cancelledAt: serverTimestamp()
+          ...(cancellation.cancellationReason ? { cancellationReason: cancellation.cancellationReason } : {})
         });
+
+        // Hold the freed seat for the next patient on the waitlist
+        applyOffer?.();
+
+        return { dateId: appointment.dateId, providerId: appointment.providerId };
       });
 
+      this.clearDateCache(cancelled.dateId, cancelled.providerId);
       return { success: true };
     } catch (error: any) {
       console.error('Error cancelling appointment:', error);
       return { success: false, error: error.message };
     }
   }
+
+  /**
+   * Move an appointment to a new date/time in a single transaction
+   * Returns the old timeIds to their date, takes the new ones (same appointment type and provider),
+   * cancels the old appointment and creates a new appointment linked to the one it replaced
+   * Staff can move any patient's appointment; the new booking stays the patient's and skips the
+   * cutoff and booking window, which only limit what patients can do for themselves
+   */
+  async rescheduleAppointment(
+    appointmentId: string,
+    newDateId: string,
+    newTimeId: string
+  ): Promise<{ success: boolean; appointmentId?: string; error?: string; code?: BookingErrorCode }> {
+    const currentUser = await this.authService.waitForAuthInit();
+    
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    let oldDateId: string | null = null;
+    let providerId: string | undefined;
+
+    try {
+      // The type decides how many slots the new time needs (re-checked in the transaction)
+      const existing = await getDoc(doc(this.firestore, 'appointments', appointmentId));
+      if (!existing.exists()) {
+        throw new Error('Appointment not found');
+      }
+      const { typeId, userId: patientId } = existing.data() as Appointment;
+      const byStaff = patientId !== currentUser.uid;
+      if (byStaff && !(await this.authService.isAdmin())) {
+        throw new Error('Unauthorized');
+      }
+
+      // Limits are checked against the patient's bookings, whoever is moving the appointment
+      const [policy, upcoming, allTimes, closures] = await Promise.all([
+        this.bookingPolicyService.getPolicy(),
+        this.getUpcomingAppointments(patientId),
+        this.getAllTimes(),
+        this.closuresService.getClosures()
+      ]);
+
+      this.assertNotClosed(closures, [newDateId]);
+
+      const { type, timeIds: newTimeIds } = await this.resolveCoveredTimeIds(newTimeId, typeId);
+
+      // The appointment being moved doesn't clash with its own new time
+      const newStartTime = allTimes.find(t => t.timeId === newTimeId);
+      if (newStartTime) {
+        const others = upcoming.filter(apt => apt.appointmentId !== appointmentId);
+        this.assertNoSameDayClash(policy, others, this.getCandidateTime(newDateId, newStartTime, newTimeIds.length));
+      }
+
+      const newAppointmentId = await runTransaction(this.firestore, async (transaction) => {
+        // All reads must happen before any writes in a transaction
+        const appointmentRef = doc(this.firestore, 'appointments', appointmentId);
+        const appointmentDoc = await transaction.get(appointmentRef);
+
+        if (!appointmentDoc.exists()) {
+          throw new Error('Appointment not found');
+        }
+
+        const appointment = appointmentDoc.data() as Appointment;
+        if (appointment.userId !== patientId) {
+          throw new Error('Appointment changed while rescheduling. Please try again.');
+        }
+        if (!isChangeableStatus(appointment.status)) {
+          throw new Error(`${STATUS_LABELS[appointment.status]} appointments can't be rescheduled`);
+        }
+        if (appointment.typeId !== typeId) {
+          throw new Error('Appointment changed while rescheduling. Please try again.');
+        }
+        if (appointment.dateId === newDateId && appointment.timeId === newTimeId) {
+          throw new Error('Please choose a different date or time');
+        }
+
+        const cutoffViolation = !byStaff && appointment.startsAt && getCancellationViolation(policy, appointment.startsAt.toDate());
+        if (cutoffViolation) {
+          throw new Error(cutoffViolation);
+        }
+
+        oldDateId = appointment.dateId;
+        providerId = appointment.providerId;
+        const sameDate = appointment.dateId === newDateId;
+
+        // The patient stays with the same provider, so both dates are on the same schedule
+        const provider = await this.readProvider(transaction, providerId);
+
+        const newDateRef = doc(this.firestore, getDatePath(newDateId, providerId));
+        const newDateDoc = await transaction.get(newDateRef);
+        if (!newDateDoc.exists()) {
+          throw new Error('Date not found');
+        }
+
+        const newDateData = newDateDoc.data() as DateDoc;
+        const oldTimeIds = getAppointmentTimeIds(appointment);
+
+        // On the same date the old slots are free again before the new ones are taken
+        const released = sameDate
+          ? { ...newDateData, ...adjustSeats(newDateData, oldTimeIds, -1) }
+          : newDateData;
+        const locks = await this.readCoveredLocks(transaction, newDateId, released, newTimeIds, currentUser.uid, providerId);
+
+        const oldDateRef = doc(this.firestore, getDatePath(appointment.dateId, providerId));
+        const oldDateDoc = sameDate ? newDateDoc : await transaction.get(oldDateRef);
+        if (!oldDateDoc.exists()) {
+          throw new Error('Date not found');
+        }
+
+        const timeRef = doc(this.firestore, 'times', newTimeId);
+        const timeDoc = await transaction.get(timeRef);
+        if (!timeDoc.exists()) {
+          throw new Error('Time not found');
+        }
+        const timeData = timeDoc.data() as TimeDoc;
+
+        const startsAt = getSlotStart(newDateId, timeData);
+        const windowViolation = !byStaff && getBookingWindowViolation(policy, startsAt);
+        if (windowViolation) {
+          throw new BookingError('booking-window', windowViolation);
+        }
+
+        const newAppointmentRef = doc(collection(this.firestore, 'appointments'));
+        const givenBack = getSeatChange(appointmentId, oldTimeIds, -1);
+        const taken = getSeatChange(newAppointmentRef.id, newTimeIds, 1);
+        if (sameDate) {
+          // Single write so the release and the take are computed from the same snapshot
+          transaction.update(newDateRef, { ...adjustSeats(released, newTimeIds, 1), seatChanges: { ...givenBack, ...taken } });
+        } else {
+          transaction.update(oldDateRef, { ...adjustSeats(oldDateDoc.data() as DateDoc, oldTimeIds, -1), seatChanges: givenBack });
+          transaction.update(newDateRef, { ...adjustSeats(newDateData, newTimeIds, 1), seatChanges: taken });
+        }
+
+        // Create the replacement appointment, linked back to the original
+        const newAppointment = {
+          appointmentId: newAppointmentRef.id,
+          dateId: newDateId,
+          timeId: newTimeId,
+          timeIds: newTimeIds,
+          userId: patientId,
+          bookedBy: currentUser.uid,
+          date: newDateData.date,
+          time: timeData.time,
+          ...this.typeFields(type),
+          ...this.providerFields(provider),
+          ...this.initialStatusFields(policy, currentUser.uid, byStaff),
+          createdAt: serverTimestamp(),
+          startsAt: Timestamp.fromDate(startsAt),
+          timeZone: CLINIC_TIME_ZONE,
+          rescheduledFrom: appointmentId
+        };
+        transaction.set(newAppointmentRef, newAppointment);
+        this.recordCreation(transaction, newAppointment, currentUser.uid);
+
+        transaction.update(appointmentRef, {
+          ...this.statusUpdate('cancelled', currentUser.uid),
+          cancelledAt: serverTimestamp(),
+          cancelledBy: byStaff ? 'staff' : 'patient',
+          rescheduledTo: newAppointmentRef.id
+        });
+        this.recordChange(transaction, appointment, currentUser.uid, 'rescheduled', {
+          status: 'cancelled',
+          rescheduledTo: newAppointmentRef.id
+        });
+
+        this.releaseOwnHolds(transaction, locks, currentUser.uid);
+
+        return newAppointmentRef.id;
+      });
+
+      // Both dates changed availability
+      this.clearDateCache(newDateId, providerId);
+      if (oldDateId && oldDateId !== newDateId) {
+        this.clearDateCache(oldDateId, providerId);
+      }
+
+      return { success: true, appointmentId: newAppointmentId };
+    } catch (error: any) {
+      console.error('Error rescheduling appointment:', error);
+      return this.bookingFailure(error);
+    }
+  }
+
+  /**
+   * Check every occurrence of a recurring series for the same time slot (and provider)
+   * Nothing is written - the patient picks from this list before booking
+   */
+  async previewSeries(
+    dateId: string,
+    timeId: string,
+    rule: RecurrenceRule,
+    options: { typeId?: string; providerId?: string } = {}
+  ): Promise<SeriesOccurrence[]> {
+    const { typeId, providerId } = options;
+    const currentUser = await this.authService.waitForAuthInit();
+    const dateIds = getOccurrenceDateIds(dateId, rule);
+
+    const [policy, upcoming, allTimes, { timeIds }, closures] = await Promise.all([
+      this.bookingPolicyService.getPolicy(),
+      currentUser ? this.getUpcomingAppointments(currentUser.uid) : Promise.resolve([]),
+      this.getAllTimes(),
+      this.resolveCoveredTimeIds(timeId, typeId),
+      this.closuresService.getClosures()
+    ]);
+    const time = allTimes.find(t => t.timeId === timeId);
+    const upcomingTimes = upcoming.map(getBookedTime);
+
+    const occurrences = await Promise.all(dateIds.map(async (occurrenceDateId): Promise<SeriesOccurrence> => {
+      const closure = getClosureOn(closures, occurrenceDateId);
+      if (closure) {
+        return { dateId: occurrenceDateId, date: occurrenceDateId, available: false, reason: `Closed (${closure.reason})` };
+      }
+
+      if (time && getBookingWindowViolation(policy, getSlotStart(occurrenceDateId, time))) {
+        return { dateId: occurrenceDateId, date: occurrenceDateId, available: false, reason: 'Outside booking window' };
+      }
+
+      const clash = time && getSameDayViolation(policy, upcomingTimes, this.getCandidateTime(occurrenceDateId, time, timeIds.length));
+      if (clash) {
+        const reason = clash.code === 'same-day-appointment' ? 'Already booked that day' : 'Clashes with another appointment';
+        return { dateId: occurrenceDateId, date: occurrenceDateId, available: false, reason };
+      }
+
+      const [dateDoc, ...lockDocs] = await Promise.all([
+        getDoc(doc(this.firestore, getDatePath(occurrenceDateId, providerId))),
+        ...timeIds.map(coveredTimeId =>
+          getDoc(doc(this.firestore, 'slot_locks', getSlotLockId(occurrenceDateId, coveredTimeId, providerId))))
+      ]);
+
+      if (!dateDoc.exists()) {
+        return { dateId: occurrenceDateId, date: occurrenceDateId, available: false, reason: 'Clinic is closed' };
+      }
+
+      // Every covered slot needs a seat nobody else is holding
+      const dateData = dateDoc.data() as DateDoc;
+      const isFree = timeIds.every((coveredTimeId, i) => {
+        const lock = lockDocs[i].exists() ? lockDocs[i].data() as SlotLock : null;
+        return getRemainingSeats(dateData, coveredTimeId) - countOtherActiveHolds(lock, currentUser?.uid ?? '') > 0;
+      });
+
+      return isFree
+        ? { dateId: occurrenceDateId, date: dateData.date, available: true }
+        : { dateId: occurrenceDateId, date: dateData.date, available: false, reason: 'Fully booked' };
+    }));
+
+    // Later occurrences that would go over the patient's appointment limit are dropped
+    let allowed = Math.max(0, policy.maxActiveAppointments - upcoming.length);
+    return occurrences.map(occurrence => {
+      if (!occurrence.available) {
+        return occurrence;
+      }
+      if (allowed === 0) {
+        return { ...occurrence, available: false, reason: 'Over appointment limit' };
+      }
+      allowed--;
+      return occurrence;
+    });
+  }
+
+  /**
+   * Book the same time on several dates in one transaction (all or nothing)
+   * Every appointment shares a seriesId; the series document records how it was created
+   * idempotencyKey works as in bookAppointment
+   */
+  async bookSeries(
+    timeId: string,
+    dateIds: string[],
+    rule: RecurrenceRule,
+    options: { typeId?: string; providerId?: string; idempotencyKey?: string } = {}
+  ): Promise<{ success: boolean; seriesId?: string; appointmentIds?: string[]; error?: string; code?: BookingErrorCode }> {
+    const { typeId, providerId, idempotencyKey: requestId } = options;
+    const currentUser = await this.authService.waitForAuthInit();
+    
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    if (dateIds.length === 0) {
+      return { success: false, error: 'No available dates in this series' };
+    }
+
+    // Longer series would go over the reads firestore.rules may make for one transaction
+    if (dateIds.length > MAX_SERIES_OCCURRENCES) {
+      return { success: false, error: `A series can have at most ${MAX_SERIES_OCCURRENCES} appointments` };
+    }
+
+    try {
+      const previous = await this.getBookingRequest(requestId);
+      if (previous) {
+        console.log('♻️ Series booking attempt already completed:', requestId);
+        return { success: true, seriesId: previous.seriesId, appointmentIds: previous.appointmentIds };
+      }
+
+      const [policy, upcoming, allTimes, closures] = await Promise.all([
+        this.bookingPolicyService.getPolicy(),
+        this.getUpcomingAppointments(currentUser.uid),
+        this.getAllTimes(),
+        this.closuresService.getClosures()
+      ]);
+
+      this.assertNotClosed(closures, dateIds);
+
+      const limitViolation = getActiveLimitViolation(policy, upcoming.length, dateIds.length);
+      if (limitViolation) {
+        throw new BookingError('active-limit', limitViolation);
+      }
+
+      const { type, timeIds } = await this.resolveCoveredTimeIds(timeId, typeId);
+
+      const startTime = allTimes.find(t => t.timeId === timeId);
+      if (startTime) {
+        dateIds.forEach(dateId =>
+          this.assertNoSameDayClash(policy, upcoming, this.getCandidateTime(dateId, startTime, timeIds.length)));
+      }
+
+      const result = await runTransaction(this.firestore, async (transaction) => {
+        // All reads must happen before any writes in a transaction
+        const requestRef = requestId ? doc(this.firestore, 'booking_requests', requestId) : null;
+        if (requestRef) {
+          const requestDoc = await transaction.get(requestRef);
+          if (requestDoc.exists()) {
+            const request = requestDoc.data() as BookingRequest;
+            return { seriesId: request.seriesId, appointmentIds: request.appointmentIds };
+          }
+        }
+
+        const provider = await this.readProvider(transaction, providerId);
+
+        const timeRef = doc(this.firestore, 'times', timeId);
+        const timeDoc = await transaction.get(timeRef);
+        if (!timeDoc.exists()) {
+          throw new Error('Time not found');
+        }
+        const timeData = timeDoc.data() as TimeDoc;
+
+        const occurrences = [];
+        for (const dateId of dateIds) {
+          const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
+          const dateDoc = await transaction.get(dateRef);
+          if (!dateDoc.exists()) {
+            throw new Error(`Date ${dateId} not found`);
+          }
+
+          const dateData = dateDoc.data() as DateDoc;
+          const startsAt = getSlotStart(dateId, timeData);
+          const windowViolation = getBookingWindowViolation(policy, startsAt);
+          if (windowViolation) {
+            throw new BookingError('booking-window', `${dateData.date}: ${windowViolation}`);
+          }
+
+          const locks = await this.readCoveredLocks(transaction, dateId, dateData, timeIds, currentUser.uid, providerId)
+            .catch((error: Error) => {
+              throw new Error(`${dateData.date} at ${timeData.time}: ${error.message}`);
+            });
+
+          occurrences.push({ dateId, dateRef, dateData, locks, startsAt });
+        }
+
+        const seriesRef = doc(collection(this.firestore, 'appointment_series'));
+        transaction.set(seriesRef, {
+          seriesId: seriesRef.id,
+          userId: currentUser.uid,
+          timeId,
+          time: timeData.time,
+          ...this.typeFields(type),
+          ...this.providerFields(provider),
+          intervalWeeks: rule.intervalWeeks,
+          dateIds,
+          createdAt: serverTimestamp()
+        });
+
+        const appointmentIds: string[] = [];
+        for (const { dateId, dateRef, dateData, locks, startsAt } of occurrences) {
+          const appointmentRef = doc(collection(this.firestore, 'appointments'));
+          transaction.update(dateRef, {
+            ...adjustSeats(dateData, timeIds, 1),
+            seatChanges: getSeatChange(appointmentRef.id, timeIds, 1)
+          });
+          this.releaseOwnHolds(transaction, locks, currentUser.uid);
+
+          const appointment = {
+            appointmentId: appointmentRef.id,
+            dateId,
+            timeId,
+            timeIds,
+            userId: currentUser.uid,
+            bookedBy: currentUser.uid,
+            date: dateData.date,
+            time: timeData.time,
+            ...this.typeFields(type),
+            ...this.providerFields(provider),
+            ...this.initialStatusFields(policy, currentUser.uid),
+            createdAt: serverTimestamp(),
+            startsAt: Timestamp.fromDate(startsAt),
+            timeZone: CLINIC_TIME_ZONE,
+            seriesId: seriesRef.id
+          };
+          transaction.set(appointmentRef, appointment);
+          this.recordCreation(transaction, appointment, currentUser.uid);
+          appointmentIds.push(appointmentRef.id);
+        }
+
+        if (requestRef) {
+          transaction.set(requestRef, {
+            requestId,
+            userId: currentUser.uid,
+            appointmentIds,
+            seriesId: seriesRef.id,
+            createdAt: serverTimestamp()
+          });
+        }
+
+        return { seriesId: seriesRef.id, appointmentIds };
+      });
+
+      dateIds.forEach(dateId => {
+        this.clearDateCache(dateId, providerId);
+        this.slotHoldsService.clearCurrentHold(dateId, timeId, providerId);
+      });
+
+      return { success: true, ...result };
+    } catch (error: any) {
+      console.error('Error booking appointment series:', error);
+      return this.bookingFailure(error);
+    }
+  }
+
+  /**
+   * Cancel an appointment and every later confirmed appointment in its series
+   * Freed seats are offered to the waitlist the same way as a single cancellation
+   */
+  async cancelSeriesFrom(
+    appointmentId: string,
+    reason?: string
+  ): Promise<{ success: boolean; cancelledCount?: number; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+    
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      // Queries can't run inside a transaction, so find the occurrences and their waitlists first
+      const existing = await getDoc(doc(this.firestore, 'appointments', appointmentId));
+      if (!existing.exists()) {
+        throw new Error('Appointment not found');
+      }
+
+      const selected = existing.data() as Appointment;
+      if (!selected.seriesId) {
+        throw new Error('Appointment is not part of a series');
+      }
+
+      const seriesSnapshot = await getDocs(query(
+        collection(this.firestore, 'appointments'),
+        where('userId', '==', currentUser.uid),
+        where('seriesId', '==', selected.seriesId)
+      ));
+      const following = seriesSnapshot.docs
+        .map(appointmentDoc => appointmentDoc.data() as Appointment)
+        .filter(apt => isChangeableStatus(apt.status) && apt.date >= selected.date)
+        // The selected appointment goes first, in the first transaction
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      const [queues, policy] = await Promise.all([
+        Promise.all(following.map(apt => this.waitlistService.getQueue(apt.dateId, apt.timeId, apt.providerId))),
+        this.bookingPolicyService.getPolicy()
+      ]);
+
+      // firestore.rules reads each cancelled appointment, its date and any waitlist offer (with the seat
+      // it releases), and a transaction may only make 20 such reads, so long series are cancelled a few visits at a time
+      let cancelledCount = 0;
+      for (let chunkStart = 0; chunkStart < following.length; chunkStart += SERIES_CANCEL_CHUNK) {
+        const chunkEnd = Math.min(chunkStart + SERIES_CANCEL_CHUNK, following.length);
+        try {
+          const cancelled = await runTransaction(this.firestore, async (transaction) => {
+            const toCancel: { appointmentRef: DocumentReference; appointment: Appointment; applyOffer: (() => void) | null }[] = [];
+            // Keyed by date path - a series stays with one provider, but older ones have none
+            const dates = new Map<string, DateDoc>();
+
+            for (let i = chunkStart; i < chunkEnd; i++) {
+              const appointmentRef = doc(this.firestore, 'appointments', following[i].appointmentId);
+              const appointmentDoc = await transaction.get(appointmentRef);
+              if (!appointmentDoc.exists()) {
+                continue;
+              }
+
+              const appointment = appointmentDoc.data() as Appointment;
+              if (appointment.userId !== currentUser.uid) {
+                throw new Error('Unauthorized');
+              }
+              // Occurrences cancelled or checked in since the query ran are simply skipped
+              if (!isChangeableStatus(appointment.status)) {
+                continue;
+              }
+
+              // Later occurrences start after the selected one, so only it can fall inside the cutoff
+              if (appointment.appointmentId === appointmentId && appointment.startsAt) {
+                const cutoffViolation = getCancellationViolation(policy, appointment.startsAt.toDate());
+                if (cutoffViolation) {
+                  throw new Error(cutoffViolation);
+                }
+              }
+
+              const datePath = getDatePath(appointment.dateId, appointment.providerId);
+              if (!dates.has(datePath)) {
+                const dateDoc = await transaction.get(doc(this.firestore, datePath));
+                if (!dateDoc.exists()) {
+                  throw new Error('Date not found');
+                }
+                dates.set(datePath, dateDoc.data() as DateDoc);
+              }
+
+              const applyOffer = await this.waitlistService.prepareOffer(
+                transaction,
+                queues[i],
+                appointment.appointmentId,
+                appointment.dateId,
+                appointment.timeId,
+                appointment.time,
+                appointment.providerId
+              );
+
+              toCancel.push({ appointmentRef, appointment, applyOffer });
+            }
+
+            if (chunkStart === 0 && !toCancel.some(({ appointment }) => appointment.appointmentId === appointmentId)) {
+              throw new Error('Appointment is already cancelled');
+            }
+
+            // Give every seat back, one write per date
+            dates.forEach((dateData, datePath) => {
+              const onDate = toCancel
+                .filter(({ appointment }) => getDatePath(appointment.dateId, appointment.providerId) === datePath)
+                .map(({ appointment }) => appointment);
+              transaction.update(doc(this.firestore, datePath), {
+                ...adjustSeats(dateData, onDate.flatMap(getAppointmentTimeIds), -1),
+                seatChanges: Object.assign({}, ...onDate.map(apt => getSeatChange(apt.appointmentId, getAppointmentTimeIds(apt), -1)))
+              });
+            });
+
+            const cancellation = this.cancellationFields(currentUser.uid, reason);
+            for (const { appointmentRef, appointment, applyOffer } of toCancel) {
+              transaction.update(appointmentRef, cancellation);
+              this.recordChange(transaction, appointment, currentUser.uid, 'cancelled', {
+                status: 'cancelled',
+                ...(cancellation.cancellationReason ? { cancellationReason: cancellation.cancellationReason } : {})
+              });
+              applyOffer?.();
+            }
+
+            return { count: toCancel.length };
+          });
+
+          cancelledCount += cancelled.count;
+        } catch (error: any) {
+          if (cancelledCount === 0) {
+            throw error;
+          }
+          // Earlier visits are already cancelled - say how far it got
+          following.forEach(apt => this.clearDateCache(apt.dateId, apt.providerId));
+          return { success: false, cancelledCount, error: `${cancelledCount} appointments were cancelled, but the rest could not be: ${error.message}` };
+        }
+      }
+
+      following.forEach(apt => this.clearDateCache(apt.dateId, apt.providerId));
+      return { success: true, cancelledCount };
+    } catch (error: any) {
+      console.error('Error cancelling appointment series:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Staff move an appointment through its lifecycle (confirm, check in, complete, no-show)
+   * Cancelling goes through cancelAppointment so seats are returned and offered to the waitlist
+   */
+  async updateAppointmentStatus(
+    appointmentId: string,
+    status: Exclude<AppointmentStatus, 'cancelled'>
+  ): Promise<{ success: boolean; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+    
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      if (!(await this.authService.isAdmin())) {
+        throw new Error('Only staff can change an appointment\'s status');
+      }
+
+      await runTransaction(this.firestore, async (transaction) => {
+        const appointmentRef = doc(this.firestore, 'appointments', appointmentId);
+        const appointmentDoc = await transaction.get(appointmentRef);
+
+        if (!appointmentDoc.exists()) {
+          throw new Error('Appointment not found');
+        }
+
+        const appointment = appointmentDoc.data() as Appointment;
+        if (!canTransition(appointment.status, status)) {
+          throw new Error(`Can't change a ${STATUS_LABELS[appointment.status].toLowerCase()} appointment to ${STATUS_LABELS[status].toLowerCase()}`);
+        }
+
+        transaction.update(appointmentRef, this.statusUpdate(status, currentUser.uid));
+        this.recordChange(transaction, appointment, currentUser.uid, 'status-changed', { status });
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error updating appointment status:', error);
+      return { success: false, error: error.message };
+    }
+  }
 }
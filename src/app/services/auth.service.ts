@@ -6,13 +6,15 @@ import {
   signInWithEmailAndPassword,
   signOut as firebaseSignOut,
   updateProfile,
+  sendEmailVerification,
+  reload,
   User,
   onAuthStateChanged,
   setPersistence,
   browserLocalPersistence,
   browserSessionPersistence
 } from 'firebase/auth';
-import { doc, setDoc, getDoc, Timestamp } from 'firebase/firestore';
+import { doc, setDoc, getDoc, Timestamp, collection, query, where, getDocs, writeBatch, deleteField } from 'firebase/firestore';
 import { Observable, BehaviorSubject } from 'rxjs';
 
 export interface UserProfile {
@@ -22,10 +24,22 @@ export interface UserProfile {
   lastName: string;
   role: 'patient' | 'admin';
   phoneNumber?: string;
+  createdBy?: string; // staff uid when reception added the patient (no sign-in account)
+  pendingEmail?: string; // lower-cased email of a profile reception added, until the patient registers and verifies it
+  linkedTo?: string; // account that took over this profile (and its appointments) once its email was verified
   createdAt: any;
   updatedAt: any;
 }
 
+export type UserRole = UserProfile['role'];
+
+/**
+ * Whether a role may open a route or link restricted to the given roles (no roles means anyone signed in)
+ */
+export function hasRequiredRole(role: UserRole, roles?: UserRole[]): boolean {
+  return !roles?.length || roles.includes(role);
+}
+
 export interface RegisterData {
   firstName: string;
   lastName: string;
@@ -84,6 +98,7 @@ export class AuthService {
         console.log('👤 User found, managing tokens...');
         await this.refreshIdToken();
         this.startTokenRefreshInterval();
+        this.claimVerifiedProfiles(user);
       } else {
         console.log('👻 No user, clearing tokens...');
         this.stopTokenRefreshInterval();
@@ -196,9 +211,66 @@ export class AuthService {
     const userDocRef = doc(firestore, 'users', userCredential.user.uid);
     await setDoc(userDocRef, profile);
     
+    // Step 4: Ask the patient to verify their email - anything reception booked for it is only
+    // linked to this account after that (see claimVerifiedProfiles)
+    try {
+      await sendEmailVerification(userCredential.user);
+    } catch (error) {
+      // Not fatal - the patient can still book, and staff can resend from the Firebase console
+      console.error('❌ AuthService: Error sending verification email', error);
+    }
+    
     return { user: userCredential.user, profile };
   }
 
+  /**
+   * Take over anything reception booked for the user's email before they had an account,
+   * once they have verified that email (runs on every sign-in; nothing is left to claim afterwards)
+   */
+  private async claimVerifiedProfiles(user: User): Promise<void> {
+    if (!isPlatformBrowser(this.platformId) || !user.email) {
+      return;
+    }
+
+    try {
+      if (!user.emailVerified) {
+        // The link may have been opened since this session started
+        await reload(user);
+        if (!user.emailVerified) {
+          return;
+        }
+        // The rules read email_verified from the token, not the user record
+        await this.refreshIdToken();
+      }
+
+      await this.claimPendingProfiles(user.uid, user.email);
+    } catch (error) {
+      // Not fatal - staff can still see the appointments under the profile they added
+      console.error('❌ AuthService: Error linking profile added by staff', error);
+    }
+  }
+
+  /**
+   * Move the appointments of profiles reception added with this email to the account
+   * and mark those profiles as linked (firestore.rules checks the email against the verified sign-in token)
+   */
+  private async claimPendingProfiles(uid: string, email: string): Promise<void> {
+    const firestore = this.firebase.getFirestore();
+    const pending = await getDocs(query(collection(firestore, 'users'), where('pendingEmail', '==', email.trim().toLowerCase())));
+
+    for (const profileDoc of pending.docs) {
+      const appointments = await getDocs(query(collection(firestore, 'appointments'), where('userId', '==', profileDoc.id)));
+
+      // The profile is claimed last in the batch - the rules read its pendingEmail as it was before
+      const batch = writeBatch(firestore);
+      appointments.docs.forEach(appointmentDoc => batch.update(appointmentDoc.ref, { userId: uid }));
+      batch.update(profileDoc.ref, { pendingEmail: deleteField(), linkedTo: uid, updatedAt: Timestamp.now() });
+      await batch.commit();
+
+      console.log(`🔗 AuthService: Linked profile ${profileDoc.id} with ${appointments.size} appointments`);
+    }
+  }
+
   async login(data: LoginData): Promise<User> {
     const { email, password } = data;
     const auth = this.firebase.getAuth();
@@ -335,6 +407,14 @@ export class AuthService {
     return claims?.admin === true || claims?.role === 'admin';
   }
 
+  /**
+   * Role of the signed-in user, taken from the ID token claims
+   * The role field on the user's profile is editable by the user, so it is never trusted here
+   */
+  async getRole(): Promise<UserRole> {
+    return (await this.isAdmin()) ? 'admin' : 'patient';
+  }
+
   /**
    * Set session persistence type BEFORE signing in
    * Call this BEFORE calling login() if you want to change persistence
@@ -0,0 +1,249 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import { AppointmentsService, DateDoc } from './appointments.service';
+import { getDatePath } from './providers.service';
+import { ClosuresService } from './closures.service';
+import {
+  AvailabilityTemplate,
+  applyTemplateToDate,
+  getTemplateViolation,
+  getWindowDateIds
+} from '../utils/availability-templates';
+import { getOpeningTimes } from '../utils/clinic-hours';
+import { CLINIC_TIME_ZONE, getClinicDateId, getDayFromDateId } from '../utils/clinic-time';
+import { getClosureOn } from '../utils/closures';
+
+/**
+ * Longest window one generator run covers
+ */
+export const MAX_GENERATION_DAYS = 180;
+
+/**
+ * What a generator run wrote
+ */
+export interface GenerationSummary {
+  created: number;   // new date documents
+  extended: number;  // existing dates that gained slots or had unbooked seats resized
+  unchanged: number; // dates already matching their template
+  closed: number;    // dates skipped because the clinic is closed
+  timesAdded: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AvailabilityTemplatesService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+  private appointmentsService = inject(AppointmentsService);
+  private closuresService = inject(ClosuresService);
+
+  private async assertAdmin() {
+    const currentUser = await this.authService.waitForAuthInit();
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    if (!(await this.authService.isAdmin())) {
+      throw new Error('Only staff can change the schedule');
+    }
+    return currentUser;
+  }
+
+  /**
+   * Every template, shared clinic schedule first, then by name
+   */
+  async getTemplates(): Promise<AvailabilityTemplate[]> {
+    const snapshot = await getDocs(collection(this.firestore, 'availability_templates'));
+    return snapshot.docs
+      .map(templateDoc => templateDoc.data() as AvailabilityTemplate)
+      .sort((a, b) => (a.providerId ?? '').localeCompare(b.providerId ?? '') || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Create (no templateId) or replace a template
+   * Only one template per schedule can be active, so the generator never has to choose between two
+   */
+  async saveTemplate(
+    template: Omit<AvailabilityTemplate, 'templateId' | 'updatedAt' | 'updatedBy'> & { templateId?: string }
+  ): Promise<{ success: boolean; templateId?: string; error?: string }> {
+    try {
+      const currentUser = await this.assertAdmin();
+
+      const violation = getTemplateViolation(template);
+      if (violation) {
+        throw new Error(violation);
+      }
+
+      if (template.active) {
+        const clash = (await this.getTemplates()).find(other =>
+          other.active && other.templateId !== template.templateId && other.providerId === template.providerId
+        );
+        if (clash) {
+          throw new Error(`"${clash.name}" is already the active template for this schedule`);
+        }
+      }
+
+      const templateRef = template.templateId
+        ? doc(this.firestore, 'availability_templates', template.templateId)
+        : doc(collection(this.firestore, 'availability_templates'));
+
+      await setDoc(templateRef, {
+        templateId: templateRef.id,
+        name: template.name.trim(),
+        ...(template.providerId ? { providerId: template.providerId } : {}),
+        blocks: template.blocks.map(({ weekdays, start, end, intervalMinutes }) => ({
+          weekdays: [...weekdays].sort((a, b) => a - b),
+          start,
+          end,
+          intervalMinutes
+        })),
+        capacity: template.capacity,
+        active: template.active,
+        updatedAt: Timestamp.now(),
+        updatedBy: currentUser.uid
+      });
+
+      console.log('🗓️ Saved availability template:', templateRef.id);
+      return { success: true, templateId: templateRef.id };
+    } catch (error: any) {
+      console.error('Error saving availability template:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Remove a template - dates it already generated stay on the schedule
+   */
+  async deleteTemplate(templateId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.assertAdmin();
+      await deleteDoc(doc(this.firestore, 'availability_templates', templateId));
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting availability template:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Create or extend date documents for every active template over the next `days` clinic days
+   * Closed dates are skipped; missing TimeDocs are added first so the booking pages can list the new times
+   * Each date is its own transaction, so a booking made meanwhile is never overwritten (see applyTemplateToDate)
+   */
+  async generateAvailability(
+    days: number,
+    fromDateId: string = getClinicDateId()
+  ): Promise<{ success: boolean; summary?: GenerationSummary; error?: string }> {
+    try {
+      await this.assertAdmin();
+
+      if (!Number.isInteger(days) || days < 1 || days > MAX_GENERATION_DAYS) {
+        throw new Error(`Generate between 1 and ${MAX_GENERATION_DAYS} days at a time`);
+      }
+
+      const templates = (await this.getTemplates()).filter(template => template.active);
+      if (templates.length === 0) {
+        throw new Error('There is no active template to generate from');
+      }
+
+      const summary: GenerationSummary = { created: 0, extended: 0, unchanged: 0, closed: 0, timesAdded: 0 };
+      summary.timesAdded = await this.addMissingTimes(templates);
+
+      const closures = await this.closuresService.getClosures();
+      const dateIds = getWindowDateIds(fromDateId, days);
+      for (const template of templates) {
+        for (const dateId of dateIds) {
+          if (getClosureOn(closures, dateId)) {
+            summary.closed++;
+            continue;
+          }
+
+          const outcome = await this.applyTemplate(template, dateId);
+          if (outcome) {
+            summary[outcome]++;
+          }
+        }
+      }
+
+      this.appointmentsService.clearDateCache();
+      console.log('🗓️ Generated availability:', summary);
+      return { success: true, summary };
+    } catch (error: any) {
+      console.error('Error generating availability:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Write a TimeDoc for every template time that isn't in the times collection yet
+   */
+  private async addMissingTimes(templates: AvailabilityTemplate[]): Promise<number> {
+    let added = 0;
+
+    for (const time of templates.flatMap(template => getOpeningTimes(template.blocks))) {
+      const timeRef = doc(this.firestore, 'times', time.timeId);
+      if ((await getDoc(timeRef)).exists()) {
+        continue;
+      }
+
+      await setDoc(timeRef, { ...time, createdAt: Timestamp.now() });
+      added++;
+    }
+
+    if (added > 0) {
+      this.appointmentsService.clearTimesCache();
+    }
+    return added;
+  }
+
+  /**
+   * Apply one template to one date; null when the template has no hours on that weekday
+   */
+  private async applyTemplate(
+    template: AvailabilityTemplate,
+    dateId: string
+  ): Promise<'created' | 'extended' | 'unchanged' | null> {
+    return runTransaction(this.firestore, async (transaction) => {
+      const dateRef = doc(this.firestore, getDatePath(dateId, template.providerId));
+      const dateSnapshot = await transaction.get(dateRef);
+      const dateDoc = dateSnapshot.exists() ? dateSnapshot.data() as DateDoc : null;
+
+      const { slots, availableTimeIds, changed } = applyTemplateToDate(dateDoc, dateId, template);
+      if (Object.keys(slots).length === 0) {
+        return null;
+      }
+      if (!changed) {
+        return 'unchanged';
+      }
+
+      if (dateDoc) {
+        transaction.update(dateRef, { slots, availableTimeIds });
+        return 'extended';
+      }
+
+      transaction.set(dateRef, {
+        dateId,
+        date: dateId,
+        displayDate: getDayFromDateId(dateId).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+        availableTimeIds,
+        slots,
+        ...(template.providerId ? { providerId: template.providerId } : {}),
+        timeZone: CLINIC_TIME_ZONE,
+        createdAt: serverTimestamp()
+      });
+      return 'created';
+    });
+  }
+}
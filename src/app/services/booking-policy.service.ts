@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import { BookingPolicy, DEFAULT_BOOKING_POLICY, SameDayRule } from '../utils/booking-policy';
+
+const SAME_DAY_RULES: SameDayRule[] = ['allow', 'no-overlap', 'one-per-day'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BookingPolicyService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * Current policy - read fresh every time so admin changes apply straight away
+   * Missing fields fall back to the defaults
+   */
+  async getPolicy(): Promise<BookingPolicy> {
+    const policyDoc = await getDoc(doc(this.firestore, 'settings', 'bookingPolicy'));
+
+    if (!policyDoc.exists()) {
+      return { ...DEFAULT_BOOKING_POLICY };
+    }
+
+    return { ...DEFAULT_BOOKING_POLICY, ...(policyDoc.data() as Partial<BookingPolicy>) };
+  }
+
+  /**
+   * Save the policy (admins only - enforced by firestore.rules)
+   */
+  async updatePolicy(policy: BookingPolicy): Promise<{ success: boolean; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      const values = [
+        policy.maxActiveAppointments,
+        policy.minLeadTimeMinutes,
+        policy.maxHorizonDays,
+        policy.cancellationCutoffHours
+      ];
+      if (values.some(value => !Number.isInteger(value) || value < 0)) {
+        throw new Error('Policy values must be whole numbers of zero or more');
+      }
+      if (policy.maxActiveAppointments < 1 || policy.maxHorizonDays < 1) {
+        throw new Error('Patients must be allowed at least one appointment and one day of booking horizon');
+      }
+      if (!SAME_DAY_RULES.includes(policy.sameDayRule)) {
+        throw new Error(`Unknown same-day rule: ${policy.sameDayRule}`);
+      }
+
+      await setDoc(doc(this.firestore, 'settings', 'bookingPolicy'), {
+        maxActiveAppointments: policy.maxActiveAppointments,
+        minLeadTimeMinutes: policy.minLeadTimeMinutes,
+        maxHorizonDays: policy.maxHorizonDays,
+        cancellationCutoffHours: policy.cancellationCutoffHours,
+        requireApproval: policy.requireApproval,
+        sameDayRule: policy.sameDayRule,
+        updatedAt: Timestamp.now(),
+        updatedBy: currentUser.uid
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error updating booking policy:', error);
+      return { success: false, error: error.message };
+    }
+  }
+}
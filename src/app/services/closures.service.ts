@@ -0,0 +1,149 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot,
+  Timestamp
+} from '@angular/fire/firestore';
+import { Observable } from 'rxjs';
+import { AuthService } from './auth.service';
+import type { Appointment } from './appointments.service';
+import { Closure } from '../utils/closures';
+import { isActiveStatus } from '../utils/appointment-status';
+
+/**
+ * An active appointment that falls inside a closure, with the patient to contact
+ */
+export interface AffectedAppointment {
+  appointment: Appointment;
+  patientName: string;
+  patientEmail: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ClosuresService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * Every closure, earliest first (there are only ever a handful, so no date query is needed)
+   */
+  async getClosures(): Promise<Closure[]> {
+    const snapshot = await getDocs(collection(this.firestore, 'closures'));
+    return snapshot.docs
+      .map(closureDoc => closureDoc.data() as Closure)
+      .sort((a, b) => a.startDateId.localeCompare(b.startDateId));
+  }
+
+  /**
+   * Live stream of every closure, so the calendar greys out new ones straight away
+   */
+  watchClosures(): Observable<Closure[]> {
+    return new Observable<Closure[]>(subscriber => {
+      return onSnapshot(collection(this.firestore, 'closures'), snapshot => {
+        subscriber.next(snapshot.docs.map(closureDoc => closureDoc.data() as Closure));
+      }, error => subscriber.error(error));
+    });
+  }
+
+  /**
+   * Close the clinic for a date or range and list the appointments that now need moving
+   * Existing appointments are left as they are - staff contact the patients and reschedule them
+   */
+  async addClosure(
+    startDateId: string,
+    endDateId: string,
+    reason: string
+  ): Promise<{ success: boolean; closureId?: string; affected?: AffectedAppointment[]; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      if (!(await this.authService.isAdmin())) {
+        throw new Error('Only staff can close the clinic');
+      }
+      if (![startDateId, endDateId].every(dateId => /^\d{4}-\d{2}-\d{2}$/.test(dateId))) {
+        throw new Error('Dates must be in YYYY-MM-DD format');
+      }
+      if (endDateId < startDateId) {
+        throw new Error("A closure can't end before it starts");
+      }
+      if (!reason.trim()) {
+        throw new Error('Give a reason so patients know why the clinic is closed');
+      }
+
+      const closureRef = doc(collection(this.firestore, 'closures'));
+      const closure: Closure = {
+        closureId: closureRef.id,
+        startDateId,
+        endDateId,
+        reason: reason.trim(),
+        createdAt: Timestamp.now(),
+        createdBy: currentUser.uid
+      };
+      await setDoc(closureRef, closure);
+      console.log('🚫 Added closure:', closure.closureId, startDateId, endDateId);
+
+      return { success: true, closureId: closure.closureId, affected: await this.getAffectedAppointments(closure) };
+    } catch (error: any) {
+      console.error('Error adding closure:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Reopen the dates (admins only - enforced by firestore.rules)
+   * Appointments were never touched, so nothing else changes
+   */
+  async deleteClosure(closureId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await deleteDoc(doc(this.firestore, 'closures', closureId));
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting closure:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Active appointments on any schedule inside a closure, by date and time, with each patient's name
+   */
+  async getAffectedAppointments(closure: Pick<Closure, 'startDateId' | 'endDateId'>): Promise<AffectedAppointment[]> {
+    const snapshot = await getDocs(query(
+      collection(this.firestore, 'appointments'),
+      where('dateId', '>=', closure.startDateId),
+      where('dateId', '<=', closure.endDateId)
+    ));
+
+    const appointments = snapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .filter(apt => isActiveStatus(apt.status))
+      .sort((a, b) => a.dateId.localeCompare(b.dateId) || (a.startsAt?.toMillis() ?? 0) - (b.startsAt?.toMillis() ?? 0));
+
+    // One profile read per patient, however many of their appointments are affected
+    const userIds = Array.from(new Set(appointments.map(apt => apt.userId)));
+    const profiles = new Map(await Promise.all(userIds.map(async userId =>
+      [userId, await this.authService.getUserProfile(userId)] as const
+    )));
+
+    return appointments.map(appointment => {
+      const profile = profiles.get(appointment.userId);
+      return {
+        appointment,
+        patientName: profile ? `${profile.firstName} ${profile.lastName}` : 'Unknown patient',
+        patientEmail: profile?.email ?? ''
+      };
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  Timestamp
+} from '@angular/fire/firestore';
+import { AuthService, UserProfile } from './auth.service';
+
+/**
+ * Details reception takes down for a patient booking by phone
+ */
+export interface NewPatient {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber?: string;
+}
+
+/**
+ * Case-insensitive match on name, email or phone number
+ */
+function matchesPatient(profile: UserProfile, search: string): boolean {
+  const text = `${profile.firstName} ${profile.lastName} ${profile.email} ${profile.phoneNumber ?? ''}`.toLowerCase();
+  return text.includes(search);
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PatientsService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * Patients whose name, email or phone contains the search text, sorted by name
+   * There are few enough patients to filter client-side, which also avoids needing an index
+   * Profiles taken over at registration are left out - the patient's own profile replaces them
+   */
+  async searchPatients(search: string): Promise<UserProfile[]> {
+    const snapshot = await getDocs(query(collection(this.firestore, 'users'), where('role', '==', 'patient')));
+    const text = search.trim().toLowerCase();
+
+    return snapshot.docs
+      .map(profileDoc => profileDoc.data() as UserProfile)
+      .filter(profile => !profile.linkedTo && (!text || matchesPatient(profile, text)))
+      .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+  }
+
+  /**
+   * Add a patient without a sign-in account so staff can book for them
+   * The email must not already belong to a patient - staff pick the existing profile instead
+   * When the patient later registers with the same email, their account takes over the profile's appointments
+   */
+  async createPatient(patient: NewPatient): Promise<{ success: boolean; profile?: UserProfile; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      if (!(await this.authService.isAdmin())) {
+        throw new Error('Only staff can add patients');
+      }
+
+      const email = patient.email.trim().toLowerCase();
+      if (!patient.firstName.trim() || !patient.lastName.trim() || !email) {
+        throw new Error('First name, last name and email are required');
+      }
+
+      // Older profiles kept the email as typed, so compare lower-cased here rather than in the query
+      const profiles = await getDocs(collection(this.firestore, 'users'));
+      if (profiles.docs.some(profileDoc => (profileDoc.data() as UserProfile).email?.toLowerCase() === email)) {
+        throw new Error('A patient with this email already exists');
+      }
+
+      const profileRef = doc(collection(this.firestore, 'users'));
+      const phoneNumber = patient.phoneNumber?.trim();
+      const profile: UserProfile = {
+        uid: profileRef.id,
+        email,
+        firstName: patient.firstName.trim(),
+        lastName: patient.lastName.trim(),
+        role: 'patient',
+        ...(phoneNumber ? { phoneNumber } : {}),
+        createdBy: currentUser.uid,
+        pendingEmail: email,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+      await setDoc(profileRef, profile);
+      console.log('👤 Added patient:', profile.uid);
+
+      return { success: true, profile };
+    } catch (error: any) {
+      console.error('Error adding patient:', error);
+      return { success: false, error: error.message };
+    }
+  }
+}
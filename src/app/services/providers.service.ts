@@ -0,0 +1,58 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  getDocs,
+  Timestamp
+} from '@angular/fire/firestore';
+
+/**
+ * A practitioner or room with its own schedule
+ * Availability lives in providers/{providerId}/dates, one DateDoc per day
+ */
+export interface Provider {
+  providerId: string;
+  name: string;
+  kind: 'practitioner' | 'room';
+  title?: string; // e.g. "Physiotherapist" or "Treatment Room 2"
+  active: boolean;
+  createdAt: Timestamp;
+}
+
+/**
+ * Path of a date document on a provider's schedule
+ * Bookings made before providers existed have no providerId and use the shared dates collection
+ */
+export function getDatePath(dateId: string, providerId?: string): string {
+  return providerId ? `providers/${providerId}/dates/${dateId}` : `dates/${dateId}`;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ProvidersService {
+  private firestore = inject(Firestore);
+
+  /**
+   * Active providers (rarely change, cached for the session)
+   */
+  private providersCache: Provider[] | null = null;
+
+  /**
+   * Get the active providers, sorted by name
+   * Filters client-side to avoid needing an index
+   */
+  async getProviders(): Promise<Provider[]> {
+    if (this.providersCache) {
+      return this.providersCache;
+    }
+
+    const snapshot = await getDocs(collection(this.firestore, 'providers'));
+    this.providersCache = snapshot.docs
+      .map(providerDoc => providerDoc.data() as Provider)
+      .filter(provider => provider.active)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return this.providersCache;
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  getDocs,
+  query,
+  where
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import { AppointmentsService, Appointment, DateDoc, TimeDoc } from './appointments.service';
+import type { Provider } from './providers.service';
+
+/**
+ * A schedule the reports can be narrowed to
+ */
+export interface ReportSchedule {
+  providerId?: string; // missing for the shared clinic schedule
+  name: string;
+}
+
+/**
+ * Everything the reports page computes from, for one range of dates
+ */
+export interface ReportData {
+  schedules: ReportSchedule[];
+  times: TimeDoc[];
+  dates: DateDoc[];            // every schedule's dates, each with its providerId
+  appointments: Appointment[]; // every status
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportsService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+  private appointmentsService = inject(AppointmentsService);
+
+  private async assertAdmin() {
+    const currentUser = await this.authService.waitForAuthInit();
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    if (!(await this.authService.isAdmin())) {
+      throw new Error('Only staff can view reports');
+    }
+  }
+
+  /**
+   * Dates, times and appointments between two dates (inclusive) on the shared schedule and every provider's
+   * Inactive providers are included, since their past dates still count
+   */
+  async getReportData(fromDateId: string, toDateId: string): Promise<ReportData> {
+    await this.assertAdmin();
+
+    const inRange = [where('dateId', '>=', fromDateId), where('dateId', '<=', toDateId)];
+    const [times, providerSnapshot, appointmentSnapshot] = await Promise.all([
+      this.appointmentsService.getAllTimes(),
+      getDocs(collection(this.firestore, 'providers')),
+      getDocs(query(collection(this.firestore, 'appointments'), ...inRange))
+    ]);
+
+    const providers = providerSnapshot.docs
+      .map(providerDoc => providerDoc.data() as Provider)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const schedules: ReportSchedule[] = [
+      { name: 'Shared clinic schedule' },
+      ...providers.map(provider => ({ providerId: provider.providerId, name: provider.name }))
+    ];
+
+    const dateSnapshots = await Promise.all(schedules.map(({ providerId }) => getDocs(query(
+      collection(this.firestore, providerId ? `providers/${providerId}/dates` : 'dates'),
+      ...inRange
+    ))));
+    // Older dates don't store providerId, so it comes from the path
+    const dates = dateSnapshots.flatMap((snapshot, i) => snapshot.docs.map(dateDoc =>
+      ({ ...dateDoc.data() as DateDoc, providerId: schedules[i].providerId })
+    ));
+
+    return {
+      schedules,
+      times,
+      dates,
+      appointments: appointmentSnapshot.docs.map(appointmentDoc => appointmentDoc.data() as Appointment)
+    };
+  }
+}
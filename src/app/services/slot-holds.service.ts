@@ -0,0 +1,292 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  runTransaction,
+  Timestamp,
+  deleteField,
+  onSnapshot
+} from '@angular/fire/firestore';
+import { Observable } from 'rxjs';
+import { AuthService } from './auth.service';
+import type { DateDoc } from './appointments.service';
+import { getDatePath } from './providers.service';
+import { getRemainingSeats } from '../utils/slot-capacity';
+
+/**
+ * How long a selected slot stays reserved for the patient on the booking page
+ */
+export const SLOT_HOLD_MINUTES = 5;
+
+/**
+ * One lock document per slot; each holder reserves one seat until their expiry
+ */
+export interface SlotLock {
+  lockId: string;
+  dateId: string;
+  timeId: string;
+  providerId?: string; // missing on locks for the shared schedule
+  holds: { [userId: string]: Timestamp };
+  expiresAt: Timestamp; // latest hold expiry - a Firestore TTL policy on this field removes stale docs
+  offerEntryId?: string; // waitlist entry whose offer was last added to holds
+  updatedAt: Timestamp;
+}
+
+export interface SlotHold {
+  dateId: string;
+  timeId: string;    // start of the visit
+  timeIds: string[]; // every slot the visit covers, one lock each
+  providerId?: string;
+  expiresAt: Date;
+}
+
+/**
+ * Lock documents are keyed by slot, e.g. "2025-10-15_08-00_AM",
+ * prefixed with the provider when the slot is on a provider's schedule
+ */
+export function getSlotLockId(dateId: string, timeId: string, providerId?: string): string {
+  return providerId ? `${providerId}_${dateId}_${timeId}` : `${dateId}_${timeId}`;
+}
+
+/**
+ * Number of seats on a slot held by anyone other than userId
+ * Expired holds are ignored everywhere
+ */
+export function countOtherActiveHolds(lock: SlotLock | null, userId: string, now: number = Date.now()): number {
+  if (!lock?.holds) {
+    return 0;
+  }
+
+  return Object.entries(lock.holds)
+    .filter(([holderId, expiresAt]) => holderId !== userId && expiresAt.toMillis() > now)
+    .length;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SlotHoldsService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * The hold owned by the current user on this page (one at a time)
+   */
+  private currentHold: SlotHold | null = null;
+
+  getCurrentHold(): SlotHold | null {
+    return this.currentHold;
+  }
+
+  /**
+   * Hold a seat on every slot a visit covers (timeIds from getCoveredTimeIds) for SLOT_HOLD_MINUTES
+   * Replaces the user's previous hold in the same transaction
+   */
+  async holdSlot(
+    dateId: string,
+    timeIds: string[],
+    providerId?: string
+  ): Promise<{ success: boolean; hold?: SlotHold; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    const previousHold = this.currentHold;
+    const timeId = timeIds[0];
+
+    try {
+      const hold = await runTransaction(this.firestore, async (transaction) => {
+        const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
+        const dateDoc = await transaction.get(dateRef);
+        if (!dateDoc.exists()) {
+          throw new Error('Date not found');
+        }
+
+        // Every covered slot needs a seat nobody else is holding
+        const locks = [];
+        for (const coveredTimeId of timeIds) {
+          const lockRef = doc(this.firestore, 'slot_locks', getSlotLockId(dateId, coveredTimeId, providerId));
+          const lockDoc = await transaction.get(lockRef);
+          const lock = lockDoc.exists() ? lockDoc.data() as SlotLock : null;
+
+          const remainingSeats = getRemainingSeats(dateDoc.data() as DateDoc, coveredTimeId);
+          if (remainingSeats === 0) {
+            throw new Error('Time slot is no longer available');
+          }
+          if (countOtherActiveHolds(lock, currentUser.uid) >= remainingSeats) {
+            throw new Error('This time slot is being held by another patient');
+          }
+
+          locks.push({ lockRef, lock, timeId: coveredTimeId });
+        }
+
+        // Read the previous locks before any writes so we only touch the ones we still hold
+        const lockIds = new Set(locks.map(({ lockRef }) => lockRef.id));
+        const previousLocks = [];
+        for (const previousTimeId of previousHold?.timeIds ?? []) {
+          const previousLockRef = doc(this.firestore, 'slot_locks',
+            getSlotLockId(previousHold!.dateId, previousTimeId, previousHold!.providerId));
+          if (!lockIds.has(previousLockRef.id)) {
+            previousLocks.push({ lockRef: previousLockRef, lockDoc: await transaction.get(previousLockRef) });
+          }
+        }
+
+        const expiresAt = Timestamp.fromMillis(Date.now() + SLOT_HOLD_MINUTES * 60 * 1000);
+
+        locks.forEach(({ lockRef, lock, timeId: coveredTimeId }) => {
+          if (lock) {
+            transaction.update(lockRef, {
+              [`holds.${currentUser.uid}`]: expiresAt,
+              expiresAt: lock.expiresAt.toMillis() > expiresAt.toMillis() ? lock.expiresAt : expiresAt,
+              updatedAt: Timestamp.now()
+            });
+          } else {
+            transaction.set(lockRef, {
+              lockId: lockRef.id,
+              dateId,
+              timeId: coveredTimeId,
+              ...(providerId ? { providerId } : {}),
+              holds: { [currentUser.uid]: expiresAt },
+              expiresAt,
+              updatedAt: Timestamp.now()
+            });
+          }
+        });
+
+        previousLocks.forEach(({ lockRef, lockDoc }) => {
+          if (lockDoc.exists() && (lockDoc.data() as SlotLock).holds?.[currentUser.uid]) {
+            transaction.update(lockRef, {
+              [`holds.${currentUser.uid}`]: deleteField(),
+              updatedAt: Timestamp.now()
+            });
+          }
+        });
+
+        return { dateId, timeId, timeIds, providerId, expiresAt: expiresAt.toDate() };
+      });
+
+      this.currentHold = hold;
+      console.log(`🔒 Holding ${dateId} ${timeIds.join(', ')} until ${hold.expiresAt.toLocaleTimeString()}`);
+      return { success: true, hold };
+    } catch (error: any) {
+      console.error('Error holding slot:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Release the current user's hold on every slot it covers (e.g. when leaving the booking page or changing date)
+   */
+  async releaseHold(): Promise<void> {
+    const hold = this.currentHold;
+    this.currentHold = null;
+
+    if (!hold) {
+      return;
+    }
+
+    const currentUser = await this.authService.waitForAuthInit();
+    if (!currentUser) {
+      return;
+    }
+
+    try {
+      await runTransaction(this.firestore, async (transaction) => {
+        const lockRefs = hold.timeIds.map(timeId =>
+          doc(this.firestore, 'slot_locks', getSlotLockId(hold.dateId, timeId, hold.providerId)));
+        const lockDocs = [];
+        for (const lockRef of lockRefs) {
+          lockDocs.push(await transaction.get(lockRef));
+        }
+
+        lockDocs.forEach(lockDoc => {
+          if (lockDoc.exists() && (lockDoc.data() as SlotLock).holds?.[currentUser.uid]) {
+            transaction.update(lockDoc.ref, {
+              [`holds.${currentUser.uid}`]: deleteField(),
+              updatedAt: Timestamp.now()
+            });
+          }
+        });
+      });
+      console.log(`🔓 Released hold on ${hold.dateId} ${hold.timeIds.join(', ')}`);
+    } catch (error) {
+      // Not fatal - the hold expires on its own
+      console.error('Error releasing slot hold:', error);
+    }
+  }
+
+  /**
+   * Forget the current hold without touching Firestore
+   * Used after bookAppointment has converted the hold into a booking
+   */
+  clearCurrentHold(dateId: string, timeId: string, providerId?: string) {
+    if (this.currentHold?.dateId === dateId &&
+        this.currentHold?.timeId === timeId &&
+        this.currentHold?.providerId === providerId) {
+      this.currentHold = null;
+    }
+  }
+
+  /**
+   * Seats other users are currently holding on one schedule's date, keyed by timeId
+   */
+  async getHeldSeatCounts(dateId: string, providerId?: string): Promise<Map<string, number>> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    const locksRef = collection(this.firestore, 'slot_locks');
+    const q = query(locksRef, where('dateId', '==', dateId));
+    const snapshot = await getDocs(q);
+
+    return this.countHeldSeats(snapshot.docs.map(lockDoc => lockDoc.data() as SlotLock), currentUser?.uid ?? '', providerId);
+  }
+
+  /**
+   * Live version of getHeldSeatCounts, backed by onSnapshot
+   * A hold that expires without its lock document changing is only dropped on the next snapshot
+   */
+  watchHeldSeatCounts(dateId: string, providerId?: string): Observable<Map<string, number>> {
+    return new Observable<Map<string, number>>(subscriber => {
+      let unsubscribe: (() => void) | null = null;
+      let closed = false;
+
+      this.authService.waitForAuthInit().then(currentUser => {
+        if (closed) {
+          return;
+        }
+
+        const locksRef = collection(this.firestore, 'slot_locks');
+        const q = query(locksRef, where('dateId', '==', dateId));
+        unsubscribe = onSnapshot(q, snapshot => {
+          const locks = snapshot.docs.map(lockDoc => lockDoc.data() as SlotLock);
+          subscriber.next(this.countHeldSeats(locks, currentUser?.uid ?? '', providerId));
+        }, error => subscriber.error(error));
+      });
+
+      return () => {
+        closed = true;
+        unsubscribe?.();
+      };
+    });
+  }
+
+  /**
+   * Locks are queried by date only (no composite index), so other providers' locks are skipped here
+   */
+  private countHeldSeats(locks: SlotLock[], userId: string, providerId?: string): Map<string, number> {
+    const now = Date.now();
+    const heldSeats = new Map<string, number>();
+    locks.filter(lock => lock.providerId === providerId).forEach(lock => {
+      const held = countOtherActiveHolds(lock, userId, now);
+      if (held > 0) {
+        heldSeats.set(lock.timeId, held);
+      }
+    });
+    return heldSeats;
+  }
+}
@@ -0,0 +1,296 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import { AppointmentsService, Appointment, DateDoc, TimeDoc } from './appointments.service';
+import { getDatePath } from './providers.service';
+import { SlotCapacity, getOpenTimeIds, getSlotCapacity } from '../utils/slot-capacity';
+import { getAppointmentTimeIds } from '../utils/appointment-types';
+import { holdsSeats } from '../utils/appointment-status';
+import { DateCheck, checkDateAvailability } from '../utils/availability-check';
+import { getMinutesOfDay, getSlotStart } from '../utils/slot-time';
+import { CLINIC_TIME_ZONE, getDayFromDateId } from '../utils/clinic-time';
+
+/**
+ * One time on a date as staff see it in the slots console
+ */
+export interface SlotView {
+  time: TimeDoc;
+  slot: SlotCapacity;
+  appointments: Appointment[]; // active appointments covering this time
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SlotsService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+  private appointmentsService = inject(AppointmentsService);
+
+  /**
+   * Every appointment on a date's schedule, whatever its status
+   */
+  private async getAppointmentsOn(dateId: string, providerId?: string): Promise<Appointment[]> {
+    const snapshot = await getDocs(query(
+      collection(this.firestore, 'appointments'),
+      where('dateId', '==', dateId)
+    ));
+
+    return snapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .filter(apt => apt.providerId === providerId);
+  }
+
+  /**
+   * Appointments holding seats on a date's schedule (queries can't run in a transaction, so this runs first)
+   * Same predicate as checkDateAvailability, so the slots page and the check agree
+   */
+  private async getSeatedAppointmentsOn(dateId: string, providerId?: string): Promise<Appointment[]> {
+    return (await this.getAppointmentsOn(dateId, providerId)).filter(apt => holdsSeats(apt.status));
+  }
+
+  /**
+   * Inside a transaction: seats taken per timeId by the appointments that still hold them
+   * Each appointment is re-read so ones cancelled since the query ran aren't counted
+   */
+  private async countOccupiedSeats(transaction: Transaction, appointments: Appointment[]): Promise<Map<string, number>> {
+    const occupied = new Map<string, number>();
+
+    for (const { appointmentId } of appointments) {
+      const appointmentDoc = await transaction.get(doc(this.firestore, 'appointments', appointmentId));
+      const appointment = appointmentDoc.exists() ? appointmentDoc.data() as Appointment : null;
+      if (!appointment || !holdsSeats(appointment.status)) {
+        continue;
+      }
+
+      getAppointmentTimeIds(appointment).forEach(timeId => occupied.set(timeId, (occupied.get(timeId) ?? 0) + 1));
+    }
+
+    return occupied;
+  }
+
+  private async assertAdmin() {
+    const currentUser = await this.authService.waitForAuthInit();
+    if (!currentUser) {
+      throw new Error('User not authenticated');
+    }
+    if (!(await this.authService.isAdmin())) {
+      throw new Error('Only staff can change the schedule');
+    }
+  }
+
+  /**
+   * Every time on a date with its seats and the appointments in it, earliest first
+   * dateDoc is null when the date isn't on the schedule
+   */
+  async getDateSchedule(dateId: string, providerId?: string): Promise<{ dateDoc: DateDoc | null; slots: SlotView[] }> {
+    const [dateSnapshot, allTimes, appointments] = await Promise.all([
+      getDoc(doc(this.firestore, getDatePath(dateId, providerId))),
+      this.appointmentsService.getAllTimes(),
+      this.getSeatedAppointmentsOn(dateId, providerId)
+    ]);
+
+    if (!dateSnapshot.exists()) {
+      return { dateDoc: null, slots: [] };
+    }
+
+    const dateDoc = dateSnapshot.data() as DateDoc;
+    const slots = [...allTimes]
+      .sort((a, b) => getMinutesOfDay(a) - getMinutesOfDay(b))
+      .map(time => ({
+        time,
+        slot: getSlotCapacity(dateDoc, time.timeId),
+        appointments: appointments.filter(apt => getAppointmentTimeIds(apt).includes(time.timeId))
+      }));
+
+    return { dateDoc, slots };
+  }
+
+  /**
+   * Open or close one time on a date
+   * Closing keeps existing appointments; booked counts are recounted from the appointments holding seats,
+   * and availableTimeIds is rebuilt from the slots so the two can't drift apart
+   */
+  async setSlotOpen(dateId: string, timeId: string, open: boolean, providerId?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.assertAdmin();
+
+      const [allTimes, appointments] = await Promise.all([
+        this.appointmentsService.getAllTimes(),
+        this.getSeatedAppointmentsOn(dateId, providerId)
+      ]);
+
+      await runTransaction(this.firestore, async (transaction) => {
+        const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
+        const dateSnapshot = await transaction.get(dateRef);
+        if (!dateSnapshot.exists()) {
+          throw new Error('Date not found');
+        }
+
+        const dateDoc = dateSnapshot.data() as DateDoc;
+        const occupied = await this.countOccupiedSeats(transaction, appointments);
+
+        // Older dates only list availableTimeIds, so every time gets a slot entry on the first edit
+        const slots: { [timeId: string]: SlotCapacity } = {};
+        allTimes.forEach(time => {
+          const slot = getSlotCapacity(dateDoc, time.timeId);
+          slots[time.timeId] = { ...slot, booked: occupied.get(time.timeId) ?? 0 };
+        });
+
+        if (!slots[timeId]) {
+          throw new Error('Time not found');
+        }
+        slots[timeId] = { ...slots[timeId], closed: !open };
+
+        transaction.update(dateRef, { slots, availableTimeIds: getOpenTimeIds(slots) });
+      });
+
+      this.appointmentsService.clearDateCache(dateId, providerId);
+      console.log(`${open ? '🟢 Opened' : '🔴 Closed'} ${dateId} ${timeId}`, providerId ?? '');
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error updating slot:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Compare every date on a schedule between two dates with its appointments
+   * Only dates with something wrong are returned, earliest first
+   */
+  async checkAvailability(fromDateId: string, toDateId: string, providerId?: string): Promise<DateCheck[]> {
+    await this.assertAdmin();
+
+    const datesPath = providerId ? `providers/${providerId}/dates` : 'dates';
+    const [allTimes, dateSnapshot, appointmentSnapshot] = await Promise.all([
+      this.appointmentsService.getAllTimes(),
+      getDocs(query(collection(this.firestore, datesPath), where('dateId', '>=', fromDateId), where('dateId', '<=', toDateId))),
+      getDocs(query(collection(this.firestore, 'appointments'), where('dateId', '>=', fromDateId), where('dateId', '<=', toDateId)))
+    ]);
+
+    const dateDocs = new Map(dateSnapshot.docs.map(dateDoc => [dateDoc.id, dateDoc.data() as DateDoc]));
+    const appointments = appointmentSnapshot.docs
+      .map(appointmentDoc => appointmentDoc.data() as Appointment)
+      .filter(apt => apt.providerId === providerId);
+
+    // Appointments can point at a date that no longer exists, so both sides list dates
+    const dateIds = Array.from(new Set([...dateDocs.keys(), ...appointments.map(apt => apt.dateId)])).sort();
+    return dateIds
+      .map(dateId => checkDateAvailability(
+        dateDocs.get(dateId) ?? null,
+        dateId,
+        appointments.filter(apt => apt.dateId === dateId),
+        allTimes,
+        providerId
+      ))
+      .filter(check => check.discrepancies.length > 0);
+  }
+
+  /**
+   * Rewrite a date's slots and availableTimeIds from its appointments
+   * Returns the check as found inside the transaction; overbooked slots and missing dates still need staff
+   */
+  async repairDate(dateId: string, providerId?: string): Promise<{ success: boolean; check?: DateCheck; error?: string }> {
+    try {
+      await this.assertAdmin();
+
+      const allTimes = await this.appointmentsService.getAllTimes();
+      const check = await runTransaction(this.firestore, async (transaction) => {
+        const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
+        const dateSnapshot = await transaction.get(dateRef);
+
+        // Queried after reading the date: a booking made in between also writes the date,
+        // so the transaction retries and this query runs again
+        const appointments = await this.getAppointmentsOn(dateId, providerId);
+        const check = checkDateAvailability(
+          dateSnapshot.exists() ? dateSnapshot.data() as DateDoc : null,
+          dateId,
+          appointments,
+          allTimes,
+          providerId
+        );
+
+        if (check.repair) {
+          transaction.update(dateRef, check.repair);
+        }
+        return check;
+      });
+
+      this.appointmentsService.clearDateCache(dateId, providerId);
+      console.log(`🔧 Repaired ${dateId}`, providerId ?? '', check.discrepancies.map(discrepancy => discrepancy.kind));
+      return { success: true, check };
+    } catch (error: any) {
+      console.error('Error repairing date:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Put a new date on the schedule with every time open
+   */
+  async addDate(
+    dateId: string,
+    options: { providerId?: string; capacity: number }
+  ): Promise<{ success: boolean; error?: string }> {
+    const { providerId, capacity } = options;
+
+    try {
+      await this.assertAdmin();
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dateId)) {
+        throw new Error('Dates must be in YYYY-MM-DD format');
+      }
+      if (!Number.isInteger(capacity) || capacity < 1) {
+        throw new Error('Each time needs at least one seat');
+      }
+
+      const allTimes = await this.appointmentsService.getAllTimes();
+      if (allTimes.length === 0) {
+        throw new Error('No times are set up yet');
+      }
+
+      await runTransaction(this.firestore, async (transaction) => {
+        const dateRef = doc(this.firestore, getDatePath(dateId, providerId));
+        const dateSnapshot = await transaction.get(dateRef);
+        if (dateSnapshot.exists()) {
+          throw new Error('This date is already on the schedule');
+        }
+
+        const slots: { [timeId: string]: SlotCapacity } = {};
+        allTimes.forEach(time => {
+          slots[time.timeId] = { capacity, booked: 0, startsAt: Timestamp.fromDate(getSlotStart(dateId, time)) };
+        });
+
+        transaction.set(dateRef, {
+          dateId,
+          date: dateId,
+          displayDate: getDayFromDateId(dateId).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' }),
+          availableTimeIds: getOpenTimeIds(slots),
+          slots,
+          ...(providerId ? { providerId } : {}),
+          timeZone: CLINIC_TIME_ZONE,
+          createdAt: serverTimestamp()
+        });
+      });
+
+      this.appointmentsService.clearDateCache(dateId, providerId);
+      console.log(`📅 Added ${dateId}`, providerId ?? '');
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error adding date:', error);
+      return { success: false, error: error.message };
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Firestore,
+  collection,
+  query,
+  where,
+  getDocs,
+  doc,
+  getDoc,
+  runTransaction,
+  writeBatch,
+  Timestamp,
+  Transaction,
+  deleteField
+} from '@angular/fire/firestore';
+import { AuthService } from './auth.service';
+import { SlotLock, getSlotLockId } from './slot-holds.service';
+import { getDatePath } from './providers.service';
+
+/**
+ * How long a waitlisted patient has to claim a freed slot before it opens up to everyone
+ */
+export const WAITLIST_OFFER_MINUTES = 30;
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'left';
+
+export interface WaitlistEntry {
+  entryId: string;
+  userId: string;
+  dateId: string;
+  date: string;
+  timeId: string | null; // null = any time on the date
+  time: string | null;
+  providerId?: string | null; // null or missing = any provider
+  status: WaitlistStatus;
+  createdAt: Timestamp;
+  offeredTimeId?: string;
+  offeredTime?: string;
+  offeredProviderId?: string; // provider whose seat is being held (missing for the shared schedule)
+  offerExpiresAt?: Timestamp;
+  releasedAppointmentId?: string; // cancelled appointment whose seat is being offered
+  claimedAppointmentId?: string;
+}
+
+/**
+ * A waiting entry's place in the queue, mirrored in waitlist_queue while it waits
+ * Entries themselves are private to their patient, so cancelling patients look up who to offer a seat to here
+ */
+export type WaitlistQueueEntry = Pick<WaitlistEntry, 'entryId' | 'userId' | 'dateId' | 'timeId' | 'providerId' | 'createdAt'>;
+
+export function isOfferActive(entry: WaitlistEntry, now: number = Date.now()): boolean {
+  return entry.status === 'offered' && !!entry.offerExpiresAt && entry.offerExpiresAt.toMillis() > now;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class WaitlistService {
+  private firestore = inject(Firestore);
+  private authService = inject(AuthService);
+
+  /**
+   * Join the waitlist for a date, or for a specific time on it
+   * providerId limits the entry to one provider's schedule; null takes a seat from anyone
+   */
+  async joinWaitlist(
+    dateId: string,
+    timeId: string | null = null,
+    providerId: string | null = null
+  ): Promise<{ success: boolean; entryId?: string; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      const existing = await this.getUserWaitlist();
+      const duplicate = existing.find(entry =>
+        entry.dateId === dateId &&
+        entry.timeId === timeId &&
+        (entry.providerId ?? null) === providerId &&
+        (entry.status === 'waiting' || isOfferActive(entry))
+      );
+      if (duplicate) {
+        throw new Error('You are already on the waitlist for this date and time');
+      }
+
+      // Entries for any provider aren't tied to one schedule; date IDs double as the stored date
+      let date = dateId;
+      if (providerId) {
+        const dateDoc = await getDoc(doc(this.firestore, getDatePath(dateId, providerId)));
+        if (!dateDoc.exists()) {
+          throw new Error('Date not found');
+        }
+        date = dateDoc.data()['date'];
+      }
+
+      let time: string | null = null;
+      if (timeId) {
+        const timeDoc = await getDoc(doc(this.firestore, 'times', timeId));
+        if (!timeDoc.exists()) {
+          throw new Error('Time not found');
+        }
+        time = timeDoc.data()['time'];
+      }
+
+      const entryRef = doc(collection(this.firestore, 'waitlist'));
+      const queueEntry: WaitlistQueueEntry = {
+        entryId: entryRef.id,
+        userId: currentUser.uid,
+        dateId,
+        timeId,
+        providerId,
+        createdAt: Timestamp.now()
+      };
+
+      // The entry joins the queue in the same write
+      const batch = writeBatch(this.firestore);
+      batch.set(entryRef, { ...queueEntry, date, time, status: 'waiting' });
+      batch.set(doc(this.firestore, 'waitlist_queue', entryRef.id), queueEntry);
+      await batch.commit();
+
+      return { success: true, entryId: entryRef.id };
+    } catch (error: any) {
+      console.error('Error joining waitlist:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Current user's waiting and offered entries (oldest first)
+   */
+  async getUserWaitlist(): Promise<WaitlistEntry[]> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return [];
+    }
+
+    const waitlistRef = collection(this.firestore, 'waitlist');
+    const q = query(waitlistRef, where('userId', '==', currentUser.uid));
+    const snapshot = await getDocs(q);
+
+    // Filter and sort client-side to avoid needing a composite index
+    return snapshot.docs
+      .map(entryDoc => entryDoc.data() as WaitlistEntry)
+      .filter(entry => entry.status === 'waiting' || entry.status === 'offered')
+      .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.toMillis() - b.createdAt.toMillis());
+  }
+
+  /**
+   * Leave the waitlist (also gives up any open offer)
+   */
+  async leaveWaitlist(entryId: string): Promise<{ success: boolean; error?: string }> {
+    const currentUser = await this.authService.waitForAuthInit();
+
+    if (!currentUser) {
+      return { success: false, error: 'User not authenticated' };
+    }
+
+    try {
+      await runTransaction(this.firestore, async (transaction) => {
+        const entryRef = doc(this.firestore, 'waitlist', entryId);
+        const entryDoc = await transaction.get(entryRef);
+
+        if (!entryDoc.exists()) {
+          throw new Error('Waitlist entry not found');
+        }
+
+        const entry = entryDoc.data() as WaitlistEntry;
+        if (entry.userId !== currentUser.uid) {
+          throw new Error('Unauthorized');
+        }
+
+        // Hand the held seat back straight away rather than waiting for the offer to expire
+        if (isOfferActive(entry) && entry.offeredTimeId) {
+          const lockRef = doc(this.firestore, 'slot_locks', getSlotLockId(entry.dateId, entry.offeredTimeId, entry.offeredProviderId));
+          const lockDoc = await transaction.get(lockRef);
+          if (lockDoc.exists() && (lockDoc.data() as SlotLock).holds?.[currentUser.uid]) {
+            transaction.update(lockRef, {
+              [`holds.${currentUser.uid}`]: deleteField(),
+              updatedAt: Timestamp.now()
+            });
+          }
+        }
+
+        transaction.update(entryRef, { status: 'left' });
+        if (entry.status === 'waiting') {
+          transaction.delete(doc(this.firestore, 'waitlist_queue', entryId));
+        }
+      });
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error leaving waitlist:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Entries still waiting for a freed timeId on a date, first come first served
+   * Matches entries for that exact time and entries for any time on the date,
+   * for the provider who freed the seat or for any provider
+   */
+  async getQueue(dateId: string, timeId: string, providerId?: string): Promise<WaitlistQueueEntry[]> {
+    const queueRef = collection(this.firestore, 'waitlist_queue');
+    const q = query(queueRef, where('dateId', '==', dateId));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs
+      .map(queueDoc => queueDoc.data() as WaitlistQueueEntry)
+      .filter(entry => entry.timeId === null || entry.timeId === timeId)
+      .filter(entry => !entry.providerId || entry.providerId === providerId)
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+  }
+
+  /**
+   * Offer a freed seat to the first entry in the queue, inside the caller's transaction
+   * The seat is held in slot_locks for the waitlisted patient until the offer expires.
+   * firestore.rules only accepts the offer when appointmentId gives the seat back in the same transaction.
+   * Reads happen here, so call this before the transaction performs any writes and
+   * apply the returned write function after.
+   */
+  async prepareOffer(
+    transaction: Transaction,
+    queue: WaitlistQueueEntry[],
+    appointmentId: string,
+    dateId: string,
+    timeId: string,
+    time: string,
+    providerId?: string
+  ): Promise<(() => void) | null> {
+    for (const candidate of queue) {
+      const entryRef = doc(this.firestore, 'waitlist', candidate.entryId);
+      const queueRef = doc(this.firestore, 'waitlist_queue', candidate.entryId);
+      const queueDoc = await transaction.get(queueRef);
+
+      // Someone else may have offered or the patient left since the queue was read
+      if (!queueDoc.exists()) {
+        continue;
+      }
+
+      const lockRef = doc(this.firestore, 'slot_locks', getSlotLockId(dateId, timeId, providerId));
+      const lockDoc = await transaction.get(lockRef);
+      const offerExpiresAt = Timestamp.fromMillis(Date.now() + WAITLIST_OFFER_MINUTES * 60 * 1000);
+
+      return () => {
+        transaction.update(entryRef, {
+          status: 'offered',
+          offeredTimeId: timeId,
+          offeredTime: time,
+          offeredProviderId: providerId ?? deleteField(),
+          offerExpiresAt,
+          releasedAppointmentId: appointmentId
+        });
+        transaction.delete(queueRef);
+
+        const lock = lockDoc.exists() ? lockDoc.data() as SlotLock : null;
+        const expiresAt = lock && lock.expiresAt.toMillis() > offerExpiresAt.toMillis()
+          ? lock.expiresAt
+          : offerExpiresAt;
+        transaction.set(lockRef, {
+          lockId: lockRef.id,
+          dateId,
+          timeId,
+          ...(providerId ? { providerId } : {}),
+          holds: { ...(lock?.holds ?? {}), [candidate.userId]: offerExpiresAt },
+          expiresAt,
+          offerEntryId: candidate.entryId,
+          updatedAt: Timestamp.now()
+        });
+      };
+    }
+
+    return null;
+  }
+}
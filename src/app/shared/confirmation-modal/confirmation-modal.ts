@@ -15,14 +15,26 @@ export class ConfirmationModalComponent {
   @Input() confirmText: string = 'Confirm';
   @Input() cancelText: string = 'Cancel';
   @Input() isDangerous: boolean = false; // For destructive actions (red button)
+  @Input() secondaryText: string | null = null; // Optional second confirm option, hidden when null
+  @Input() reasonLabel: string | null = null; // Optional free-text reason field, hidden when null
   
   @Output() confirm = new EventEmitter<void>();
   @Output() cancel = new EventEmitter<void>();
+  @Output() secondary = new EventEmitter<void>();
+  @Output() reasonChange = new EventEmitter<string>();
 
   onConfirm() {
     this.confirm.emit();
   }
 
+  onSecondary() {
+    this.secondary.emit();
+  }
+
+  onReasonInput(event: Event) {
+    this.reasonChange.emit((event.target as HTMLTextAreaElement).value);
+  }
+
   onCancel() {
     this.cancel.emit();
   }
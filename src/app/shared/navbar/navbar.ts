@@ -1,6 +1,27 @@
-import { Component, inject } from '@angular/core';
+import { Component, OnInit, OnDestroy, PLATFORM_ID, ChangeDetectorRef, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
 import { Router, RouterLink, RouterLinkActive } from '@angular/router';
-import { AuthService } from '../../services/auth.service';
+import { Subscription } from 'rxjs';
+import { AuthService, UserRole, hasRequiredRole } from '../../services/auth.service';
+
+interface NavLink {
+  label: string;
+  path: string;
+  roles?: UserRole[]; // same roles as the route's data; left out when every signed-in user can open it
+}
+
+const NAV_LINKS: NavLink[] = [
+  { label: 'Home', path: '/dashboard' },
+  { label: 'Appointments', path: '/appointments' },
+  { label: 'All Appointments', path: '/admin/appointments', roles: ['admin'] },
+  { label: 'Book for Patient', path: '/admin/book', roles: ['admin'] },
+  { label: 'Slots', path: '/slots', roles: ['admin'] },
+  { label: 'Reports', path: '/admin/reports', roles: ['admin'] },
+  { label: 'Metrics', path: '/metrics', roles: ['admin'] },
+  { label: 'Availability', path: '/admin/availability', roles: ['admin'] },
+  { label: 'Closures', path: '/admin/closures', roles: ['admin'] },
+  { label: 'Booking Policy', path: '/admin/booking-policy', roles: ['admin'] }
+];
 
 @Component({
   selector: 'app-navbar',
@@ -8,11 +29,32 @@ import { AuthService } from '../../services/auth.service';
   templateUrl: './navbar.html',
   styleUrl: './navbar.scss'
 })
-export class Navbar {
+export class Navbar implements OnInit, OnDestroy {
   private authService = inject(AuthService);
   private router = inject(Router);
+  private platformId = inject(PLATFORM_ID);
+  private cdr = inject(ChangeDetectorRef);
+  private userSubscription?: Subscription;
   
   isMenuOpen = false;
+  links = NAV_LINKS.filter(link => !link.roles); // role-restricted links appear once the role is known
+
+  ngOnInit() {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    // Signing in as someone else (or a refreshed token) can change the role
+    this.userSubscription = this.authService.user$.subscribe(async user => {
+      const role = user ? await this.authService.getRole() : 'patient';
+      this.links = NAV_LINKS.filter(link => hasRequiredRole(role, link.roles));
+      this.cdr.detectChanges();
+    });
+  }
+
+  ngOnDestroy() {
+    this.userSubscription?.unsubscribe();
+  }
 
   toggleMenu() {
     this.isMenuOpen = !this.isMenuOpen;
@@ -1,6 +1,32 @@
-import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges } from '@angular/core';
 import { NgClass, NgStyle } from '@angular/common';
 import { SkeletonLoader } from '../skeleton-loader/skeleton-loader';
+import type { TimeDoc } from '../../services/appointments.service';
+import { getMinutesOfDay } from '../../utils/slot-time';
+
+/**
+ * The times in one half of the day, earliest first
+ */
+interface TimeSlotGroup {
+  period: TimeDoc['period'];
+  label: string;
+  times: TimeDoc[];
+}
+
+const PERIOD_LABELS: { [period in TimeDoc['period']]: string } = {
+  AM: 'Morning',
+  PM: 'Afternoon'
+};
+
+/**
+ * Order times by hour and minute and split them into morning and afternoon
+ */
+function groupByPeriod(times: TimeDoc[]): TimeSlotGroup[] {
+  const sorted = [...times].sort((a, b) => getMinutesOfDay(a) - getMinutesOfDay(b));
+  return (['AM', 'PM'] as const)
+    .map(period => ({ period, label: PERIOD_LABELS[period], times: sorted.filter(time => time.period === period) }))
+    .filter(group => group.times.length > 0);
+}
 
 @Component({
   selector: 'time-slots',
@@ -8,69 +34,65 @@ import { SkeletonLoader } from '../skeleton-loader/skeleton-loader';
   templateUrl: './time-slots.html',
   styleUrl: './time-slots.scss'
 })
-export class TimeSlots implements OnInit, OnChanges {
-  @Input() startHour: number = 8;
-  @Input() endHour: number = 15;
-  @Input() endMinute: number = 30;
-  @Input() intervalMinutes: number = 30;
+export class TimeSlots implements OnChanges {
+  @Input() times: TimeDoc[] = []; // the clinic's times, in any order
   @Input() columns: number = 4;
-  @Input() disabledSlots: string[] = [];
+  @Input() disabledTimeIds: string[] = [];
+  @Input() seatsRemaining: { [timeId: string]: number } = {}; // optional seats-left badge per time
+  @Input() localTimes: { [timeId: string]: string } = {}; // optional second time per slot, e.g. in the patient's zone
   @Input() loading: boolean = false; // New loading input
 
-  @Output() slotSelected = new EventEmitter<string | null>();
+  @Output() slotSelected = new EventEmitter<TimeDoc | null>();
 
-  slots: string[] = [];
-  selectedSlot: string | null = null;
-
-  ngOnInit() {
-    this.generateSlots();
-    this.selectFirstAvailableSlot();
-  }
+  groups: TimeSlotGroup[] = [];
+  selectedTimeId: string | null = null;
 
   ngOnChanges(changes: SimpleChanges) {
-    // When disabledSlots changes, revalidate selected slot
-    if (changes['disabledSlots'] && !changes['disabledSlots'].firstChange) {
-      if (this.selectedSlot && this.disabledSlots.includes(this.selectedSlot)) {
-        // Current selection is now disabled, select first available
+    if (changes['times']) {
+      this.groups = groupByPeriod(this.times);
+    }
+
+    // Revalidate the selection when the times or what's disabled change
+    if (changes['times'] || changes['disabledTimeIds']) {
+      const selected = this.times.find(time => time.timeId === this.selectedTimeId);
+      if (!selected || this.isDisabled(selected)) {
         this.selectFirstAvailableSlot();
       }
     }
   }
 
-  private generateSlots() {
-    const startMinutes = this.startHour * 60;
-    const endMinutes = this.endHour * 60 + this.endMinute;
-    
-    for (let m = startMinutes; m <= endMinutes; m += this.intervalMinutes) {
-      this.slots.push(this.formatTime(m));
-    }
-  }
+  selectSlot(time: TimeDoc) {
+    if (this.isDisabled(time)) return;
 
-  private formatTime(totalMinutes: number): string {
-    const h = Math.floor(totalMinutes / 60);
-    const min = totalMinutes % 60;
-    const hour12 = h % 12 === 0 ? 12 : h % 12;
-    const ampm = h < 12 ? 'AM' : 'PM';
-    return `${hour12}:${min.toString().padStart(2, '0')} ${ampm}`;
+    // Toggle selection: if already selected, keep it selected (don't deselect)
+    this.selectedTimeId = time.timeId;
+    this.slotSelected.emit(time);
   }
 
-  selectSlot(slot: string) {
-    if (this.disabledSlots.includes(slot)) return;
-    
-    // Toggle selection: if already selected, keep it selected (don't deselect)
-    this.selectedSlot = slot;
-    this.slotSelected.emit(this.selectedSlot);
+  isDisabled(time: TimeDoc): boolean {
+    return this.disabledTimeIds.includes(time.timeId);
   }
 
-  isDisabled(slot: string): boolean {
-    return this.disabledSlots.includes(slot);
+  seatsLabel(time: TimeDoc): string | null {
+    const seats = this.seatsRemaining[time.timeId];
+    if (seats === undefined) {
+      return null;
+    }
+    if (seats === 0) {
+      return 'Full';
+    }
+    return seats === 1 ? '1 seat left' : `${seats} seats left`;
   }
 
   private selectFirstAvailableSlot() {
-    // Find first slot that's not disabled
-    const firstAvailable = this.slots.find(slot => !this.disabledSlots.includes(slot));
-    this.selectedSlot = firstAvailable || null;
+    // Find the earliest time that's not disabled
+    const firstAvailable = this.groups.flatMap(group => group.times).find(time => !this.isDisabled(time)) ?? null;
+    if ((firstAvailable?.timeId ?? null) === this.selectedTimeId) {
+      return;
+    }
+
+    this.selectedTimeId = firstAvailable?.timeId ?? null;
     // Defer emission to avoid ExpressionChangedAfterItHasBeenCheckedError
-    setTimeout(() => this.slotSelected.emit(this.selectedSlot), 0);
+    setTimeout(() => this.slotSelected.emit(firstAvailable), 0);
   }
 }
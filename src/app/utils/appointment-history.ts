@@ -0,0 +1,93 @@
+import type { Appointment } from '../services/appointments.service';
+import { AppointmentStatus, STATUS_LABELS, isActiveStatus } from './appointment-status';
+import { getMinutesOfDay, parseDisplayTime } from './slot-time';
+
+/**
+ * Which part of a patient's history the appointments table shows
+ */
+export type HistoryView = 'upcoming' | 'past' | 'cancelled';
+
+export interface HistoryFilter {
+  view: HistoryView;
+  fromDateId: string | null; // "YYYY-MM-DD" (inclusive)
+  toDateId: string | null;   // "YYYY-MM-DD" (inclusive)
+}
+
+/**
+ * upcoming = still active from today on, past = visits that happened or were missed,
+ * cancelled = cancelled or moved to another time
+ */
+export function matchesHistoryFilter(appointment: Appointment, filter: HistoryFilter, todayId: string): boolean {
+  if (filter.fromDateId && appointment.date < filter.fromDateId) {
+    return false;
+  }
+  if (filter.toDateId && appointment.date > filter.toDateId) {
+    return false;
+  }
+
+  switch (filter.view) {
+    case 'upcoming':
+      return isActiveStatus(appointment.status) && appointment.date >= todayId;
+    case 'past':
+      return appointment.status !== 'cancelled' &&
+        (!isActiveStatus(appointment.status) || appointment.date < todayId);
+    case 'cancelled':
+      return appointment.status === 'cancelled';
+  }
+}
+
+/**
+ * Appointment columns the appointments tables can sort by
+ */
+export const HISTORY_SORT_COLUMNS = ['date', 'time', 'status', 'cancelledAt'] as const;
+
+export type HistorySortColumn = typeof HISTORY_SORT_COLUMNS[number];
+
+export function isHistorySortColumn(column: string): column is HistorySortColumn {
+  return (HISTORY_SORT_COLUMNS as readonly string[]).includes(column);
+}
+
+/**
+ * Value the appointments table sorts a column by
+ */
+export function getHistorySortValue(appointment: Appointment, column: HistorySortColumn): string | number {
+  switch (column) {
+    case 'date':
+      return `${appointment.date} ${getMinutesOfDay(parseDisplayTime(appointment.time)).toString().padStart(4, '0')}`;
+    case 'time':
+      return getMinutesOfDay(parseDisplayTime(appointment.time));
+    case 'status':
+      return STATUS_LABELS[appointment.status];
+    case 'cancelledAt':
+      return appointment.cancelledAt?.toMillis() ?? 0;
+  }
+}
+
+/**
+ * What the staff appointments page narrows every patient's bookings down to
+ */
+export interface StaffAppointmentFilter {
+  fromDateId: string | null; // "YYYY-MM-DD" (inclusive)
+  toDateId: string | null;   // "YYYY-MM-DD" (inclusive)
+  status: AppointmentStatus | 'all';
+  patient: string;           // matched against the patient's name and email, case-insensitive
+}
+
+export function matchesStaffFilter(
+  appointment: Appointment,
+  patientText: string,
+  filter: StaffAppointmentFilter
+): boolean {
+  if (filter.fromDateId && appointment.date < filter.fromDateId) {
+    return false;
+  }
+  if (filter.toDateId && appointment.date > filter.toDateId) {
+    return false;
+  }
+  if (filter.status !== 'all' && appointment.status !== filter.status) {
+    return false;
+  }
+
+  const search = filter.patient.trim().toLowerCase();
+  return !search || patientText.toLowerCase().includes(search);
+}
@@ -0,0 +1,52 @@
+/**
+ * Lifecycle of an appointment
+ * pending -> confirmed -> checked-in -> completed, with cancelled and no-show as the other endings
+ */
+export type AppointmentStatus = 'pending' | 'confirmed' | 'checked-in' | 'completed' | 'no-show' | 'cancelled';
+
+/**
+ * Where each status can move next (same map as firestore.rules)
+ */
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  'pending': ['confirmed', 'cancelled'],
+  'confirmed': ['checked-in', 'no-show', 'cancelled'],
+  'checked-in': ['completed'],
+  'completed': [],
+  'no-show': [],
+  'cancelled': []
+};
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  'pending': 'Pending approval',
+  'confirmed': 'Confirmed',
+  'checked-in': 'Checked in',
+  'completed': 'Completed',
+  'no-show': 'No-show',
+  'cancelled': 'Cancelled'
+};
+
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses that still hold seats and count towards the patient's upcoming appointments
+ */
+export function isActiveStatus(status: AppointmentStatus): boolean {
+  return status === 'pending' || status === 'confirmed' || status === 'checked-in';
+}
+
+/**
+ * Statuses that still take up seats on the date - only cancelling gives seats back,
+ * so completed visits and no-shows keep theirs
+ */
+export function holdsSeats(status: AppointmentStatus): boolean {
+  return status !== 'cancelled';
+}
+
+/**
+ * Patients can cancel or reschedule until they have checked in
+ */
+export function isChangeableStatus(status: AppointmentStatus): boolean {
+  return canTransition(status, 'cancelled');
+}
@@ -0,0 +1,64 @@
+import type { Appointment, TimeDoc } from '../services/appointments.service';
+import { getMinutesOfDay } from './slot-time';
+
+/**
+ * A kind of visit from the appointment_types catalog
+ */
+export interface AppointmentType {
+  typeId: string;
+  name: string;
+  durationMinutes: number;
+  description?: string;
+}
+
+/**
+ * Every TimeDoc is a 30-minute slot
+ */
+export const SLOT_MINUTES = 30;
+
+/**
+ * Used until the appointment_types collection is seeded
+ */
+export const DEFAULT_APPOINTMENT_TYPES: AppointmentType[] = [
+  { typeId: 'consultation', name: 'Consultation', durationMinutes: 30, description: 'A standard visit with the doctor' },
+  { typeId: 'procedure', name: 'Procedure', durationMinutes: 60, description: 'Minor in-clinic procedures' },
+  { typeId: 'follow-up', name: 'Follow-up', durationMinutes: 15, description: 'A quick check-in after a previous visit' }
+];
+
+/**
+ * How many consecutive slots a visit of this length takes (short visits still take a whole slot)
+ */
+export function getSlotsNeeded(durationMinutes: number): number {
+  return Math.max(1, Math.ceil(durationMinutes / SLOT_MINUTES));
+}
+
+/**
+ * The start slot plus the slots straight after it, or null if the day runs out
+ * or there is a gap in the schedule before slotsNeeded slots are covered
+ */
+export function getCoveredTimeIds(times: TimeDoc[], startTimeId: string, slotsNeeded: number): string[] | null {
+  const sorted = [...times].sort((a, b) => getMinutesOfDay(a) - getMinutesOfDay(b));
+  const startIndex = sorted.findIndex(t => t.timeId === startTimeId);
+  if (startIndex === -1) {
+    return null;
+  }
+
+  const covered = [sorted[startIndex].timeId];
+  for (let i = 1; i < slotsNeeded; i++) {
+    const previous = sorted[startIndex + i - 1];
+    const next = sorted[startIndex + i];
+    if (!next || getMinutesOfDay(next) - getMinutesOfDay(previous) !== SLOT_MINUTES) {
+      return null;
+    }
+    covered.push(next.timeId);
+  }
+
+  return covered;
+}
+
+/**
+ * Every timeId an appointment occupies (bookings made before types existed only have timeId)
+ */
+export function getAppointmentTimeIds(appointment: Pick<Appointment, 'timeId' | 'timeIds'>): string[] {
+  return appointment.timeIds?.length ? appointment.timeIds : [appointment.timeId];
+}
@@ -0,0 +1,107 @@
+import { Timestamp } from '@angular/fire/firestore';
+import type { Appointment, DateDoc, TimeDoc } from '../services/appointments.service';
+import { AppointmentStatus } from './appointment-status';
+import { checkDateAvailability } from './availability-check';
+
+const DATE_ID = '2030-01-15';
+const NINE = '9-00_AM';
+const NINE_THIRTY = '9-30_AM';
+const TEN = '10-00_AM';
+
+const times: TimeDoc[] = [
+  { timeId: NINE, time: '9:00 AM', hour: 9, minute: 0, period: 'AM', createdAt: Timestamp.now() },
+  { timeId: NINE_THIRTY, time: '9:30 AM', hour: 9, minute: 30, period: 'AM', createdAt: Timestamp.now() },
+  { timeId: TEN, time: '10:00 AM', hour: 10, minute: 0, period: 'AM', createdAt: Timestamp.now() }
+];
+
+function dateDoc(fields: Pick<DateDoc, 'slots' | 'availableTimeIds'>): DateDoc {
+  return { dateId: DATE_ID, date: DATE_ID, displayDate: 'Tuesday, January 15, 2030', createdAt: Timestamp.now(), ...fields };
+}
+
+function appointment(appointmentId: string, timeIds: string[], status: AppointmentStatus = 'confirmed'): Appointment {
+  return {
+    appointmentId,
+    dateId: DATE_ID,
+    timeId: timeIds[0],
+    timeIds,
+    userId: 'alice',
+    date: DATE_ID,
+    time: times.find(time => time.timeId === timeIds[0])!.time,
+    status,
+    createdAt: Timestamp.now()
+  };
+}
+
+describe('checkDateAvailability', () => {
+  it('should find nothing wrong with a date that matches its appointments', () => {
+    const check = checkDateAvailability(dateDoc({
+      slots: { [NINE]: { capacity: 2, booked: 1 }, [NINE_THIRTY]: { capacity: 1, booked: 0 } },
+      availableTimeIds: [NINE, NINE_THIRTY]
+    }), DATE_ID, [appointment('apt-1', [NINE])], times);
+
+    expect(check.discrepancies).toEqual([]);
+    expect(check.repair).toBeNull();
+  });
+
+  it('should recount a booked count that drifted, leaving cancelled appointments out', () => {
+    const check = checkDateAvailability(dateDoc({
+      slots: { [NINE]: { capacity: 2, booked: 2 } },
+      availableTimeIds: []
+    }), DATE_ID, [appointment('apt-1', [NINE]), appointment('apt-2', [NINE], 'cancelled')], times);
+
+    expect(check.discrepancies.map(discrepancy => [discrepancy.kind, discrepancy.timeId])).toEqual([
+      ['booked-count', NINE],
+      ['availability', NINE]
+    ]);
+    expect(check.discrepancies[0].appointmentIds).toEqual(['apt-1']);
+    expect(check.repair).toEqual({ slots: { [NINE]: { capacity: 2, booked: 1 } }, availableTimeIds: [NINE] });
+  });
+
+  it('should fix a stale availableTimeIds without touching the seats', () => {
+    const check = checkDateAvailability(dateDoc({
+      slots: { [NINE]: { capacity: 1, booked: 1 }, [NINE_THIRTY]: { capacity: 1, booked: 0 } },
+      availableTimeIds: [NINE]
+    }), DATE_ID, [appointment('apt-1', [NINE])], times);
+
+    expect(check.discrepancies.map(discrepancy => [discrepancy.kind, discrepancy.timeId])).toEqual([
+      ['availability', NINE],
+      ['availability', NINE_THIRTY]
+    ]);
+    expect(check.repair).toEqual({
+      slots: { [NINE]: { capacity: 1, booked: 1 }, [NINE_THIRTY]: { capacity: 1, booked: 0 } },
+      availableTimeIds: [NINE_THIRTY]
+    });
+  });
+
+  it('should keep a closed slot closed and off availableTimeIds', () => {
+    const closed = { [NINE]: { capacity: 2, booked: 1, closed: true } };
+    const appointments = [appointment('apt-1', [NINE])];
+
+    expect(checkDateAvailability(dateDoc({ slots: closed, availableTimeIds: [] }), DATE_ID, appointments, times).discrepancies)
+      .toEqual([]);
+
+    const listed = checkDateAvailability(dateDoc({ slots: closed, availableTimeIds: [NINE] }), DATE_ID, appointments, times);
+    expect(listed.discrepancies.map(discrepancy => discrepancy.kind)).toEqual(['availability']);
+    expect(listed.repair).toEqual({ slots: closed, availableTimeIds: [] });
+  });
+
+  it('should count a multi-slot appointment on every slot it covers', () => {
+    const appointments = [appointment('apt-1', [NINE, NINE_THIRTY])];
+
+    const counted = checkDateAvailability(dateDoc({
+      slots: { [NINE]: { capacity: 1, booked: 1 }, [NINE_THIRTY]: { capacity: 1, booked: 1 } },
+      availableTimeIds: []
+    }), DATE_ID, appointments, times);
+    expect(counted.discrepancies).toEqual([]);
+
+    const startOnly = checkDateAvailability(dateDoc({
+      slots: { [NINE]: { capacity: 1, booked: 1 }, [NINE_THIRTY]: { capacity: 1, booked: 0 } },
+      availableTimeIds: [NINE_THIRTY]
+    }), DATE_ID, appointments, times);
+    expect(startOnly.discrepancies.map(discrepancy => [discrepancy.kind, discrepancy.timeId])).toEqual([
+      ['booked-count', NINE_THIRTY],
+      ['availability', NINE_THIRTY]
+    ]);
+    expect(startOnly.repair?.availableTimeIds).toEqual([]);
+  });
+});
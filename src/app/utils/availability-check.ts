@@ -0,0 +1,159 @@
+import type { Appointment, DateDoc, TimeDoc } from '../services/appointments.service';
+import { SlotCapacity, getOpenTimeIds, getSlotCapacity } from './slot-capacity';
+import { getAppointmentTimeIds } from './appointment-types';
+import { holdsSeats } from './appointment-status';
+import { getMinutesOfDay } from './slot-time';
+
+/**
+ * What can be wrong with a date's seats
+ * - booked-count: booked doesn't match the appointments holding seats (repairable)
+ * - availability: availableTimeIds lists a full slot or leaves out a free one (repairable)
+ * - overbooked: more appointments than seats - staff have to move someone
+ * - missing-slot: appointments cover a time the date has no slot for
+ * - missing-date: appointments are on a date that isn't on the schedule
+ * - unknown-time: a slot isn't in the times collection, so patients can never see it
+ */
+export type DiscrepancyKind = 'booked-count' | 'availability' | 'overbooked' | 'missing-slot' | 'missing-date' | 'unknown-time';
+
+export interface AvailabilityDiscrepancy {
+  kind: DiscrepancyKind;
+  timeId?: string;          // missing for missing-date
+  message: string;
+  appointmentIds?: string[];
+}
+
+/**
+ * A date on one schedule compared with the appointments on it
+ * repair holds the slots and availableTimeIds to write back, or null when rewriting them changes nothing
+ */
+export interface DateCheck {
+  dateId: string;
+  providerId?: string;
+  discrepancies: AvailabilityDiscrepancy[];
+  repair: Pick<DateDoc, 'slots' | 'availableTimeIds'> | null;
+}
+
+const REPAIRABLE: DiscrepancyKind[] = ['booked-count', 'availability'];
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Appointment IDs holding a seat on each timeId
+ */
+function getSeatHolders(appointments: Appointment[]): Map<string, string[]> {
+  const holders = new Map<string, string[]>();
+  appointments
+    .filter(apt => holdsSeats(apt.status))
+    .forEach(apt => getAppointmentTimeIds(apt).forEach(timeId =>
+      holders.set(timeId, [...(holders.get(timeId) ?? []), apt.appointmentId])
+    ));
+  return holders;
+}
+
+/**
+ * Rebuild a date's seats from its appointments and the clinic's times, and list every difference
+ * appointments should be every appointment on this date and schedule, whatever its status,
+ * and times every document in the times collection
+ * Slot capacities, closures and start times are kept; booked never goes above capacity,
+ * matching adjustSeats, so an overbooked slot is repaired to full and reported for staff
+ */
+export function checkDateAvailability(
+  dateDoc: DateDoc | null,
+  dateId: string,
+  appointments: Appointment[],
+  times: TimeDoc[],
+  providerId?: string
+): DateCheck {
+  const holders = getSeatHolders(appointments);
+  const labels = new Map(times.map(time => [time.timeId, time.time]));
+  const label = (timeId: string) => labels.get(timeId) ?? timeId;
+  // Earliest first, with slots for unknown times last
+  const order = new Map([...times].sort((a, b) => getMinutesOfDay(a) - getMinutesOfDay(b)).map((time, i) => [time.timeId, i]));
+  const byTime = (a: string, b: string) => (order.get(a) ?? times.length) - (order.get(b) ?? times.length) || a.localeCompare(b);
+  const discrepancies: AvailabilityDiscrepancy[] = [];
+
+  if (!dateDoc) {
+    const appointmentIds = Array.from(new Set(Array.from(holders.values()).flat()));
+    if (appointmentIds.length > 0) {
+      discrepancies.push({
+        kind: 'missing-date',
+        message: `${plural(appointmentIds.length, 'appointment')} booked on a date that isn't on the schedule`,
+        appointmentIds
+      });
+    }
+    return { dateId, providerId, discrepancies, repair: null };
+  }
+
+  const listed = new Set(dateDoc.availableTimeIds ?? []);
+  const timeIds = Array.from(new Set([...Object.keys(dateDoc.slots ?? {}), ...listed])).sort(byTime);
+  const slots: { [timeId: string]: SlotCapacity } = {};
+
+  for (const timeId of timeIds) {
+    const slot = getSlotCapacity(dateDoc, timeId);
+    const appointmentIds = holders.get(timeId) ?? [];
+    const booked = Math.min(appointmentIds.length, slot.capacity);
+
+    // A listed one is reported (and repaired) as an availability discrepancy below
+    if (!labels.has(timeId) && !listed.has(timeId)) {
+      discrepancies.push({ kind: 'unknown-time', timeId, message: `${timeId} isn't one of the clinic's times` });
+    }
+    if (appointmentIds.length > slot.capacity) {
+      discrepancies.push({
+        kind: 'overbooked',
+        timeId,
+        message: `${label(timeId)} has ${plural(appointmentIds.length, 'appointment')} for ${plural(slot.capacity, 'seat')}`,
+        appointmentIds
+      });
+    }
+    if (slot.booked !== booked) {
+      discrepancies.push({
+        kind: 'booked-count',
+        timeId,
+        message: `${label(timeId)} counts ${slot.booked} booked for ${plural(appointmentIds.length, 'appointment')}`,
+        appointmentIds
+      });
+    }
+    slots[timeId] = { ...slot, booked };
+  }
+
+  Array.from(holders.keys())
+    .filter(timeId => !slots[timeId])
+    .sort(byTime)
+    .forEach(timeId => discrepancies.push({
+      kind: 'missing-slot',
+      timeId,
+      message: `${label(timeId)} has ${plural(holders.get(timeId)!.length, 'appointment')} but no slot on this date`,
+      appointmentIds: holders.get(timeId)
+    }));
+
+  // Only the clinic's times can be offered, whatever the slot says
+  const availableTimeIds = getOpenTimeIds(slots).filter(timeId => labels.has(timeId));
+  const expected = new Set(availableTimeIds);
+  timeIds
+    .filter(timeId => listed.has(timeId) !== expected.has(timeId))
+    .forEach(timeId => discrepancies.push({
+      kind: 'availability',
+      timeId,
+      message: !listed.has(timeId)
+        ? `${label(timeId)} has a free seat but isn't offered to patients`
+        : labels.has(timeId)
+          ? `${label(timeId)} is offered to patients but can't take a booking`
+          : `${timeId} is offered to patients but isn't one of the clinic's times`
+    }));
+
+  return {
+    dateId,
+    providerId,
+    discrepancies,
+    repair: discrepancies.some(isRepairable) ? { slots, availableTimeIds } : null
+  };
+}
+
+/**
+ * Whether writing the date's repair makes this discrepancy go away - the rest need staff
+ */
+export function isRepairable(discrepancy: AvailabilityDiscrepancy): boolean {
+  return REPAIRABLE.includes(discrepancy.kind);
+}
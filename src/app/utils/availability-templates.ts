@@ -0,0 +1,115 @@
+import { Timestamp } from '@angular/fire/firestore';
+import type { DateDoc } from '../services/appointments.service';
+import { SlotCapacity, getOpenTimeIds, getSlotCapacity } from './slot-capacity';
+import { SLOT_MINUTES } from './appointment-types';
+import { createTimeId, getClockTime, getSlotStart } from './slot-time';
+import { getDateId, getDayFromDateId } from './clinic-time';
+import { AvailabilityBlock, getOpeningMinutes, parseClockTime } from './clinic-hours';
+
+/**
+ * A schedule's regular week, stored at availability_templates/{templateId}
+ * Each schedule (the shared clinic schedule or one provider) has at most one active template
+ */
+export interface AvailabilityTemplate {
+  templateId: string;
+  name: string;
+  providerId?: string; // missing for the shared clinic schedule
+  blocks: AvailabilityBlock[];
+  capacity: number;    // seats on each generated slot
+  active: boolean;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+/**
+ * Reason a template can't be saved, or null if it is valid
+ * Slots must sit on the SLOT_MINUTES grid so longer visits can cover consecutive slots
+ */
+export function getTemplateViolation(template: Pick<AvailabilityTemplate, 'name' | 'blocks' | 'capacity'>): string | null {
+  if (!template.name.trim()) {
+    return 'Templates need a name';
+  }
+  if (!Number.isInteger(template.capacity) || template.capacity < 1) {
+    return 'Each slot needs at least one seat';
+  }
+  if (template.blocks.length === 0) {
+    return 'Add at least one block of opening hours';
+  }
+
+  for (const block of template.blocks) {
+    const start = parseClockTime(block.start);
+    const end = parseClockTime(block.end);
+
+    if (block.weekdays.length === 0 || block.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Each block needs at least one weekday';
+    }
+    if (start === null || end === null) {
+      return 'Times must be in HH:mm format';
+    }
+    if (end < start) {
+      return `A block can't end (${block.end}) before it starts (${block.start})`;
+    }
+    if (!Number.isInteger(block.intervalMinutes) || block.intervalMinutes < SLOT_MINUTES || block.intervalMinutes % SLOT_MINUTES !== 0) {
+      return `Slots must be ${SLOT_MINUTES} minutes apart, or a multiple of that`;
+    }
+    if (start % SLOT_MINUTES !== 0) {
+      return 'Blocks must start on the hour or half hour';
+    }
+  }
+  return null;
+}
+
+/**
+ * Date IDs for a rolling window of days starting at fromDateId
+ */
+export function getWindowDateIds(fromDateId: string, days: number): string[] {
+  const start = getDayFromDateId(fromDateId);
+  return Array.from({ length: days }, (_, i) =>
+    getDateId(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i))
+  );
+}
+
+/**
+ * Slots a template gives a date, merged into what the date already has (null for a new date)
+ * Existing slots with bookings are left exactly as they are; unbooked ones take the template's capacity
+ * and keep any staff closure. Slots the template no longer offers are never removed.
+ * changed is false when nothing would be written
+ */
+export function applyTemplateToDate(
+  dateDoc: DateDoc | null,
+  dateId: string,
+  template: Pick<AvailabilityTemplate, 'blocks' | 'capacity'>
+): { slots: { [timeId: string]: SlotCapacity }; availableTimeIds: string[]; changed: boolean } {
+  const slots: { [timeId: string]: SlotCapacity } = {};
+  let changed = dateDoc === null;
+
+  if (dateDoc) {
+    const existingTimeIds = new Set([...Object.keys(dateDoc.slots ?? {}), ...(dateDoc.availableTimeIds ?? [])]);
+    existingTimeIds.forEach(timeId => slots[timeId] = getSlotCapacity(dateDoc, timeId));
+  }
+
+  for (const minute of getOpeningMinutes(template.blocks, getDayFromDateId(dateId).getDay())) {
+    const clock = getClockTime(minute);
+    const timeId = createTimeId(clock.time);
+    // Older dates without a slots map list only free times, so a missing time there was taken
+    const existing = slots[timeId] ?? (dateDoc && !dateDoc.slots ? getSlotCapacity(dateDoc, timeId) : undefined);
+
+    if (existing && existing.booked > 0) {
+      slots[timeId] = existing;
+      continue;
+    }
+    if (existing && existing.capacity === template.capacity && existing.startsAt) {
+      continue;
+    }
+
+    slots[timeId] = {
+      ...existing,
+      capacity: template.capacity,
+      booked: existing?.booked ?? 0,
+      startsAt: existing?.startsAt ?? Timestamp.fromDate(getSlotStart(dateId, clock))
+    };
+    changed = true;
+  }
+
+  return { slots, availableTimeIds: getOpenTimeIds(slots), changed };
+}
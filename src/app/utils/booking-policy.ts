@@ -0,0 +1,144 @@
+import { Timestamp } from '@angular/fire/firestore';
+import type { Appointment } from '../services/appointments.service';
+import { getSlotStart, parseDisplayTime } from './slot-time';
+import { SLOT_MINUTES, getAppointmentTimeIds } from './appointment-types';
+
+/**
+ * How a patient's appointments on the same day are limited
+ * allow = no limit, no-overlap = times may not overlap, one-per-day = one appointment per clinic date
+ */
+export type SameDayRule = 'allow' | 'no-overlap' | 'one-per-day';
+
+/**
+ * Admin-editable booking rules, stored at settings/bookingPolicy
+ */
+export interface BookingPolicy {
+  maxActiveAppointments: number;  // upcoming pending/confirmed appointments per patient
+  minLeadTimeMinutes: number;     // how soon before the start a slot can still be booked
+  maxHorizonDays: number;         // how far ahead a slot can be booked
+  cancellationCutoffHours: number; // no cancelling or rescheduling inside this window
+  requireApproval: boolean;       // new bookings start as pending until staff confirm them
+  sameDayRule: SameDayRule;       // checked against the patient's other upcoming appointments
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+/**
+ * Used until an admin saves a policy document
+ */
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  maxActiveAppointments: 5,
+  minLeadTimeMinutes: 60,
+  maxHorizonDays: 90,
+  cancellationCutoffHours: 24,
+  requireApproval: false,
+  sameDayRule: 'no-overlap'
+};
+
+/**
+ * Machine-readable reason a booking was refused, returned next to the message
+ */
+export type BookingErrorCode =
+  | 'active-limit'
+  | 'booking-window'
+  | 'overlapping-appointment'
+  | 'same-day-appointment'
+  | 'clinic-closed';
+
+/**
+ * A policy violation thrown inside booking transactions, carrying its code to the result
+ */
+export class BookingError extends Error {
+  constructor(readonly code: BookingErrorCode, message: string) {
+    super(message);
+    this.name = 'BookingError';
+  }
+}
+
+/**
+ * The stretch of time an appointment occupies on a clinic date
+ */
+export interface BookedTime {
+  dateId: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/**
+ * Start and end of an existing appointment (older bookings have no startsAt, so it is rebuilt from date and time)
+ */
+export function getBookedTime(appointment: Appointment): BookedTime {
+  const startsAt = appointment.startsAt?.toDate() ?? getSlotStart(appointment.dateId, parseDisplayTime(appointment.time));
+  const minutes = getAppointmentTimeIds(appointment).length * SLOT_MINUTES;
+  return { dateId: appointment.dateId, startsAt, endsAt: new Date(startsAt.getTime() + minutes * 60000) };
+}
+
+/**
+ * Code and reason a new booking clashes with the patient's other appointments under sameDayRule, or null
+ */
+export function getSameDayViolation(
+  policy: BookingPolicy,
+  existing: BookedTime[],
+  candidate: BookedTime
+): { code: BookingErrorCode; message: string } | null {
+  if (policy.sameDayRule === 'allow') {
+    return null;
+  }
+
+  const sameDay = existing.filter(booked => booked.dateId === candidate.dateId);
+
+  if (policy.sameDayRule === 'one-per-day' && sameDay.length > 0) {
+    return { code: 'same-day-appointment', message: 'You already have an appointment on this day' };
+  }
+
+  const overlaps = sameDay.some(booked => booked.startsAt < candidate.endsAt && candidate.startsAt < booked.endsAt);
+  if (overlaps) {
+    return { code: 'overlapping-appointment', message: 'This time overlaps another of your appointments' };
+  }
+  return null;
+}
+
+function pluralize(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Reason a slot starting at startsAt can't be booked yet (or any more), or null if it can
+ */
+export function getBookingWindowViolation(policy: BookingPolicy, startsAt: Date, now: Date = new Date()): string | null {
+  const minutesUntilStart = (startsAt.getTime() - now.getTime()) / 60000;
+
+  if (minutesUntilStart < policy.minLeadTimeMinutes) {
+    return `Appointments must be booked at least ${pluralize(policy.minLeadTimeMinutes, 'minute')} in advance`;
+  }
+  if (minutesUntilStart > policy.maxHorizonDays * 24 * 60) {
+    return `Appointments can only be booked up to ${pluralize(policy.maxHorizonDays, 'day')} ahead`;
+  }
+  return null;
+}
+
+/**
+ * Reason booking `adding` more appointments would go over the patient's limit, or null
+ */
+export function getActiveLimitViolation(policy: BookingPolicy, activeCount: number, adding: number = 1): string | null {
+  if (activeCount + adding <= policy.maxActiveAppointments) {
+    return null;
+  }
+
+  const remaining = Math.max(0, policy.maxActiveAppointments - activeCount);
+  return remaining === 0
+    ? `You already have ${pluralize(activeCount, 'upcoming appointment')}, the most allowed at once`
+    : `You can only book ${pluralize(remaining, 'more appointment')} (limit of ${policy.maxActiveAppointments} upcoming)`;
+}
+
+/**
+ * Reason an appointment starting at startsAt can no longer be cancelled or moved, or null
+ */
+export function getCancellationViolation(policy: BookingPolicy, startsAt: Date, now: Date = new Date()): string | null {
+  const hoursUntilStart = (startsAt.getTime() - now.getTime()) / 3600000;
+
+  if (hoursUntilStart < policy.cancellationCutoffHours) {
+    return `Appointments can't be cancelled or rescheduled within ${pluralize(policy.cancellationCutoffHours, 'hour')} of the start time`;
+  }
+  return null;
+}
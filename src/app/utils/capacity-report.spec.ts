@@ -0,0 +1,90 @@
+import { Timestamp } from '@angular/fire/firestore';
+import type { DateDoc, TimeDoc } from '../services/appointments.service';
+import { SlotCapacity, getOpenTimeIds } from './slot-capacity';
+import { getBookingStats, getBusyHeatmap, getCapacityRows, getDateTotals, getUtilisation } from './capacity-report';
+
+const NINE = '9-00_AM';
+const TEN = '10-00_AM';
+
+const times: TimeDoc[] = [
+  { timeId: TEN, time: '10:00 AM', hour: 10, minute: 0, period: 'AM', createdAt: Timestamp.now() },
+  { timeId: NINE, time: '9:00 AM', hour: 9, minute: 0, period: 'AM', createdAt: Timestamp.now() }
+];
+
+/**
+ * Two seats at nine with one booked, unless the slots are given
+ */
+function dateDoc(dateId: string, slots: { [timeId: string]: SlotCapacity } = { [NINE]: { capacity: 2, booked: 1 } }): DateDoc {
+  return {
+    dateId,
+    date: dateId,
+    displayDate: dateId,
+    availableTimeIds: getOpenTimeIds(slots),
+    slots,
+    createdAt: Timestamp.now()
+  };
+}
+
+describe('capacity report', () => {
+  describe('getCapacityRows', () => {
+    it('should group a week from Monday to Sunday, across the new year', () => {
+      // Monday Dec 28, 2026 to Sunday Jan 3, 2027, then the next Monday
+      const rows = getCapacityRows([dateDoc('2027-01-04'), dateDoc('2027-01-03'), dateDoc('2026-12-28')], 'week');
+
+      expect(rows.map(row => [row.key, row.label, row.dates])).toEqual([
+        ['2026-12-28', 'Week of Dec 28, 2026', 2],
+        ['2027-01-04', 'Week of Jan 4, 2027', 1]
+      ]);
+      expect(rows[0]).toEqual(jasmine.objectContaining({ capacity: 4, booked: 2, available: 2 }));
+    });
+
+    it('should put a Sunday in the week of the Monday before it, even in the previous month', () => {
+      const rows = getCapacityRows([dateDoc('2026-03-01'), dateDoc('2026-03-02')], 'week');
+
+      expect(rows.map(row => row.key)).toEqual(['2026-02-23', '2026-03-02']);
+    });
+
+    it('should split months on their last and first days', () => {
+      const rows = getCapacityRows([dateDoc('2027-01-01'), dateDoc('2026-12-31'), dateDoc('2026-01-31'), dateDoc('2026-02-01')], 'month');
+
+      expect(rows.map(row => [row.key, row.label, row.dates])).toEqual([
+        ['2026-01', 'January 2026', 1],
+        ['2026-02', 'February 2026', 1],
+        ['2026-12', 'December 2026', 1],
+        ['2027-01', 'January 2027', 1]
+      ]);
+    });
+
+    it('should add up the schedules that share a day', () => {
+      const rows = getCapacityRows([dateDoc('2026-06-15'), { ...dateDoc('2026-06-15'), providerId: 'dr-smith' }], 'day');
+
+      expect(rows.length).toBe(1);
+      expect(rows[0]).toEqual(jasmine.objectContaining({ key: '2026-06-15', dates: 2, capacity: 4, booked: 2, available: 2 }));
+    });
+  });
+
+  describe('with zero capacity', () => {
+    it('should report no utilisation instead of dividing by zero', () => {
+      const rows = getCapacityRows([dateDoc('2026-06-15', {})], 'month');
+
+      expect(rows[0]).toEqual(jasmine.objectContaining({ dates: 1, capacity: 0, booked: 0, available: 0 }));
+      expect(getUtilisation(rows[0])).toBeNull();
+    });
+
+    it('should leave out times no date has a seat for', () => {
+      const heatmap = getBusyHeatmap([dateDoc('2026-06-15')], times);
+
+      expect(heatmap.map(row => row.time.timeId)).toEqual([NINE]);
+      expect(getBusyHeatmap([dateDoc('2026-06-15', {})], times)).toEqual([]);
+    });
+
+    it('should report no rates without bookings', () => {
+      expect(getBookingStats([])).toEqual({ bookings: 0, cancelled: 0, cancellationRate: null, averageLeadDays: null });
+    });
+  });
+
+  it('should count closed seats as neither booked nor available', () => {
+    expect(getDateTotals(dateDoc('2026-06-15', { [NINE]: { capacity: 3, booked: 1, closed: true } })))
+      .toEqual({ capacity: 3, booked: 1, available: 0 });
+  });
+});
@@ -0,0 +1,180 @@
+import type { Appointment, DateDoc, TimeDoc } from '../services/appointments.service';
+import { getRemainingSeats, getSlotCapacity } from './slot-capacity';
+import { getMinutesOfDay, getSlotStart, parseDisplayTime } from './slot-time';
+import { getDateId, getDayFromDateId } from './clinic-time';
+
+/**
+ * How the capacity report groups dates
+ */
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Seats across a set of slots
+ * available counts free seats on open slots only, so capacity - booked - available is what staff closed
+ */
+export interface SeatTotals {
+  capacity: number;
+  booked: number;
+  available: number;
+}
+
+/**
+ * One day, week (starting Monday) or month of the schedule
+ */
+export interface CapacityRow extends SeatTotals {
+  key: string;   // dateId, the week's Monday or "YYYY-MM"
+  label: string;
+  dates: number; // date documents counted, across every schedule included
+}
+
+/**
+ * Booked and total seats for one weekday and time, added up over every date in the report
+ */
+export interface HeatmapCell {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  booked: number;
+  capacity: number;
+}
+
+export interface HeatmapRow {
+  time: TimeDoc;
+  cells: HeatmapCell[]; // in HEATMAP_WEEKDAYS order
+}
+
+/**
+ * What happened to the bookings in a report's range
+ * Bookings moved by a reschedule are left out - the booking that replaced them is counted instead
+ */
+export interface BookingStats {
+  bookings: number;
+  cancelled: number;
+  cancellationRate: number | null; // 0-1, null without bookings
+  averageLeadDays: number | null;  // days between booking and the visit, null without bookings
+}
+
+/**
+ * Clinic week order for the heatmap columns, Monday first
+ */
+export const HEATMAP_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every timeId a date has a slot for, including single-seat dates that only list free times
+ */
+function getDateTimeIds(dateDoc: DateDoc): string[] {
+  return Array.from(new Set([...Object.keys(dateDoc.slots ?? {}), ...(dateDoc.availableTimeIds ?? [])]));
+}
+
+/**
+ * Seats on every slot of a date
+ */
+export function getDateTotals(dateDoc: DateDoc): SeatTotals {
+  return getDateTimeIds(dateDoc).reduce((totals, timeId) => {
+    const { capacity, booked } = getSlotCapacity(dateDoc, timeId);
+    return {
+      capacity: totals.capacity + capacity,
+      booked: totals.booked + Math.min(booked, capacity),
+      available: totals.available + getRemainingSeats(dateDoc, timeId)
+    };
+  }, { capacity: 0, booked: 0, available: 0 });
+}
+
+/**
+ * Share of seats that are booked (0-1), or null when there are no seats
+ */
+export function getUtilisation(totals: Pick<SeatTotals, 'booked' | 'capacity'>): number | null {
+  return totals.capacity > 0 ? totals.booked / totals.capacity : null;
+}
+
+/**
+ * Key and label of the day, week or month a date falls in
+ */
+function getPeriod(dateId: string, period: ReportPeriod): { key: string; label: string } {
+  const day = getDayFromDateId(dateId);
+
+  switch (period) {
+    case 'day':
+      return { key: dateId, label: day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' }) };
+    case 'week': {
+      const monday = new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+      return { key: getDateId(monday), label: `Week of ${monday.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}` };
+    }
+    case 'month':
+      return { key: dateId.slice(0, 7), label: day.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) };
+  }
+}
+
+/**
+ * Booked and available seats per day, week or month, earliest first
+ * Dates from several schedules on the same day are added together
+ */
+export function getCapacityRows(dates: DateDoc[], period: ReportPeriod): CapacityRow[] {
+  const rows = new Map<string, CapacityRow>();
+
+  dates.forEach(dateDoc => {
+    const { key, label } = getPeriod(dateDoc.dateId, period);
+    const totals = getDateTotals(dateDoc);
+    const row = rows.get(key) ?? { key, label, dates: 0, capacity: 0, booked: 0, available: 0 };
+    rows.set(key, {
+      ...row,
+      dates: row.dates + 1,
+      capacity: row.capacity + totals.capacity,
+      booked: row.booked + totals.booked,
+      available: row.available + totals.available
+    });
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Booked and total seats for every weekday and time, one row per time, earliest first
+ * Times no date has a slot for are left out
+ */
+export function getBusyHeatmap(dates: DateDoc[], times: TimeDoc[]): HeatmapRow[] {
+  const cells = new Map<string, HeatmapCell>();
+  const cellKey = (timeId: string, weekday: number) => `${timeId}|${weekday}`;
+
+  dates.forEach(dateDoc => {
+    const weekday = getDayFromDateId(dateDoc.dateId).getDay();
+    getDateTimeIds(dateDoc).forEach(timeId => {
+      const { capacity, booked } = getSlotCapacity(dateDoc, timeId);
+      const cell = cells.get(cellKey(timeId, weekday)) ?? { weekday, booked: 0, capacity: 0 };
+      cells.set(cellKey(timeId, weekday), {
+        weekday,
+        booked: cell.booked + Math.min(booked, capacity),
+        capacity: cell.capacity + capacity
+      });
+    });
+  });
+
+  return [...times]
+    .sort((a, b) => getMinutesOfDay(a) - getMinutesOfDay(b))
+    .map(time => ({
+      time,
+      cells: HEATMAP_WEEKDAYS.map(weekday => cells.get(cellKey(time.timeId, weekday)) ?? { weekday, booked: 0, capacity: 0 })
+    }))
+    .filter(row => row.cells.some(cell => cell.capacity > 0));
+}
+
+/**
+ * Cancellation rate and average lead time for appointments (already limited to the report's dates)
+ */
+export function getBookingStats(appointments: Appointment[]): BookingStats {
+  const bookings = appointments.filter(apt => !apt.rescheduledTo);
+  const cancelled = bookings.filter(apt => apt.status === 'cancelled').length;
+
+  // Older bookings without startsAt fall back to their clinic date and time
+  const leadDays = bookings.map(apt => {
+    const startsAt = apt.startsAt?.toMillis() ?? getSlotStart(apt.dateId, parseDisplayTime(apt.time)).getTime();
+    return Math.max(0, startsAt - apt.createdAt.toMillis()) / DAY_MS;
+  });
+
+  return {
+    bookings: bookings.length,
+    cancelled,
+    cancellationRate: bookings.length > 0 ? cancelled / bookings.length : null,
+    averageLeadDays: leadDays.length > 0 ? leadDays.reduce((total, days) => total + days, 0) / leadDays.length : null
+  };
+}
@@ -0,0 +1,76 @@
+import type { TimeDoc } from '../services/appointments.service';
+import { createTimeId, getClockTime } from './slot-time';
+
+/**
+ * Opening hours on some weekdays, e.g. Mon-Fri 08:00-15:30 every 30 minutes
+ * start and end are the first and last slot starts ("HH:mm", 24-hour, clinic time)
+ */
+export interface AvailabilityBlock {
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string;
+  end: string;
+  intervalMinutes: number;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * The clinic's usual hours - the one place the slot schedule is defined
+ * New availability templates start from these, and the seed script generates its times and dates from them
+ */
+export const CLINIC_HOURS: AvailabilityBlock[] = [
+  { weekdays: [1, 2, 3, 4, 5], start: '08:00', end: '15:30', intervalMinutes: 30 },
+  { weekdays: [6], start: '09:00', end: '12:00', intervalMinutes: 30 }
+];
+
+/**
+ * Minutes since midnight for "HH:mm", or null if it isn't a valid time
+ */
+export function parseClockTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [hour, minute] = [Number(match[1]), Number(match[2])];
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+}
+
+/**
+ * Slot starts (minutes since midnight) the blocks offer on a weekday, earliest first
+ */
+export function getOpeningMinutes(blocks: AvailabilityBlock[], weekday: number): number[] {
+  const minutes = new Set<number>();
+
+  blocks
+    .filter(block => block.weekdays.includes(weekday))
+    .forEach(block => {
+      const start = parseClockTime(block.start);
+      const end = parseClockTime(block.end);
+      if (start === null || end === null || block.intervalMinutes < 1) {
+        return;
+      }
+      for (let minute = start; minute <= end; minute += block.intervalMinutes) {
+        minutes.add(minute);
+      }
+    });
+
+  return Array.from(minutes).sort((a, b) => a - b);
+}
+
+/**
+ * Every TimeDoc (without createdAt) the blocks can produce, earliest first
+ */
+export function getOpeningTimes(blocks: AvailabilityBlock[]): Omit<TimeDoc, 'createdAt'>[] {
+  const minutes = new Set<number>();
+  for (let weekday = 0; weekday < 7; weekday++) {
+    getOpeningMinutes(blocks, weekday).forEach(minute => minutes.add(minute));
+  }
+
+  return Array.from(minutes)
+    .sort((a, b) => a - b)
+    .map(minute => {
+      const clock = getClockTime(minute);
+      return { timeId: createTimeId(clock.time), ...clock };
+    });
+}
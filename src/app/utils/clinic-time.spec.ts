@@ -0,0 +1,30 @@
+import { getClinicInstant } from './clinic-time';
+
+describe('getClinicInstant', () => {
+  const at = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+  it('should resolve a normal day with the offset in effect that day', () => {
+    expect(getClinicInstant('2026-01-15', at(9)).toISOString()).toBe('2026-01-15T14:00:00.000Z'); // EST
+    expect(getClinicInstant('2026-06-15', at(9)).toISOString()).toBe('2026-06-15T13:00:00.000Z'); // EDT
+  });
+
+  it('should resolve a time skipped by the spring-forward jump an hour early', () => {
+    // 2:00 AM EST jumps to 3:00 AM EDT on March 8, 2026
+    expect(getClinicInstant('2026-03-08', at(1, 30)).toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(getClinicInstant('2026-03-08', at(2, 30)).toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(getClinicInstant('2026-03-08', at(3)).toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    expect(getClinicInstant('2026-03-08', at(9)).toISOString()).toBe('2026-03-08T13:00:00.000Z');
+  });
+
+  it('should resolve a time repeated by the fall-back change to its first occurrence', () => {
+    // 2:00 AM EDT falls back to 1:00 AM EST on November 1, 2026, so 1:30 AM happens twice
+    expect(getClinicInstant('2026-11-01', at(0, 30)).toISOString()).toBe('2026-11-01T04:30:00.000Z');
+    expect(getClinicInstant('2026-11-01', at(1, 30)).toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(getClinicInstant('2026-11-01', at(2)).toISOString()).toBe('2026-11-01T07:00:00.000Z');
+    expect(getClinicInstant('2026-11-01', at(9)).toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('should use the zone it is given', () => {
+    expect(getClinicInstant('2026-06-15', at(9), 'Europe/London').toISOString()).toBe('2026-06-15T08:00:00.000Z');
+  });
+});
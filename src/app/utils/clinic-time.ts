@@ -0,0 +1,112 @@
+/**
+ * IANA zone the clinic's schedule is written in
+ * Date IDs and slot times ("8:00 AM") are wall-clock values in this zone, wherever the patient is
+ */
+export const CLINIC_TIME_ZONE = 'America/New_York';
+
+/**
+ * "YYYY-MM-DD" for a calendar day (a Date at local midnight, as FullCalendar and the recurrence maths use)
+ */
+export function getDateId(day: Date): string {
+  return `${day.getFullYear()}-${(day.getMonth() + 1).toString().padStart(2, '0')}-${day.getDate().toString().padStart(2, '0')}`;
+}
+
+/**
+ * Local midnight of a date ID, for display and calendar widgets (new Date(dateId) would parse it as UTC)
+ */
+export function getDayFromDateId(dateId: string): Date {
+  const [year, month, day] = dateId.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at that instant (negative west of Greenwich)
+ */
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((wallClockAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The clinic's date ID for an instant - "today" is the clinic's today, not the browser's
+ */
+export function getClinicDateId(instant: Date = new Date(), timeZone: string = CLINIC_TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
+}
+
+/**
+ * The instant a wall-clock time on a clinic date happens
+ * A time skipped by a spring-forward jump resolves an hour early; a repeated fall-back time resolves to its first occurrence
+ */
+export function getClinicInstant(dateId: string, minutesOfDay: number, timeZone: string = CLINIC_TIME_ZONE): Date {
+  const [year, month, day] = dateId.split('-').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  // The offset at the guessed instant can be off by an hour around a DST change, so check it once more
+  const firstGuess = wallClockAsUtc - getOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+  return new Date(wallClockAsUtc - getOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/**
+ * The browser's IANA zone (falls back to the clinic's on the server)
+ */
+export function getUserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || CLINIC_TIME_ZONE;
+}
+
+/**
+ * Whether the patient sees the same wall clock as the clinic at that instant
+ */
+export function sharesClinicTime(instant: Date, userTimeZone: string = getUserTimeZone()): boolean {
+  return getOffsetMinutes(instant, userTimeZone) === getOffsetMinutes(instant, CLINIC_TIME_ZONE);
+}
+
+/**
+ * e.g. "9:30 AM" - with the weekday and date added when it falls on another day in that zone
+ */
+export function formatTimeInZone(instant: Date, timeZone: string, referenceDateId?: string): string {
+  const time = instant.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+  if (!referenceDateId || getClinicDateId(instant, timeZone) === referenceDateId) {
+    return time;
+  }
+
+  const date = instant.toLocaleDateString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+  return `${time}, ${date}`;
+}
+
+/**
+ * Short zone name at that instant, e.g. "EDT" or "GMT+1"
+ */
+export function getTimeZoneName(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(instant)
+    .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
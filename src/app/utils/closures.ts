@@ -0,0 +1,49 @@
+import type { Timestamp } from '@angular/fire/firestore';
+import { getDateId, getDayFromDateId } from './clinic-time';
+
+/**
+ * A day or run of days the whole clinic is shut, stored at closures/{closureId}
+ * startDateId and endDateId are clinic dates ("YYYY-MM-DD"), both inclusive
+ */
+export interface Closure {
+  closureId: string;
+  startDateId: string;
+  endDateId: string;
+  reason: string;
+  createdAt: Timestamp;
+  createdBy: string;
+}
+
+/**
+ * The closure covering a date, if any
+ */
+export function getClosureOn(closures: Closure[], dateId: string): Closure | undefined {
+  return closures.find(closure => closure.startDateId <= dateId && dateId <= closure.endDateId);
+}
+
+/**
+ * The day after a date ID (FullCalendar ranges end on the first day they don't cover)
+ */
+export function getNextDateId(dateId: string): string {
+  const day = getDayFromDateId(dateId);
+  return getDateId(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1));
+}
+
+/**
+ * e.g. "December 25, 2026" or "December 24, 2026 – January 1, 2027"
+ */
+export function formatClosureDates(closure: Pick<Closure, 'startDateId' | 'endDateId'>): string {
+  const format = (dateId: string) =>
+    getDayFromDateId(dateId).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+  return closure.startDateId === closure.endDateId
+    ? format(closure.startDateId)
+    : `${format(closure.startDateId)} – ${format(closure.endDateId)}`;
+}
+
+/**
+ * Why booking on a closed date is refused
+ */
+export function getClosureMessage(closure: Closure): string {
+  return `The clinic is closed on ${formatClosureDates(closure)} (${closure.reason})`;
+}
@@ -0,0 +1,17 @@
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('should quote cells with commas, quotes or line breaks and leave the rest as they are', () => {
+    expect(toCsv(['Name', 'Seats'], [['Smith, Jane', 2], ['Room "A"\nEast', null], ['Plain', undefined]]))
+      .toBe('Name,Seats\r\n"Smith, Jane",2\r\n"Room ""A""\nEast",\r\nPlain,\r\n');
+  });
+
+  it('should open text that looks like a formula as text', () => {
+    expect(toCsv(['Provider'], [['=HYPERLINK("http://example.com")'], ['+1'], ['-1'], ['@SUM(A1)']]))
+      .toBe('Provider\r\n"\'=HYPERLINK(""http://example.com"")"\r\n"\'+1"\r\n"\'-1"\r\n"\'@SUM(A1)"\r\n');
+  });
+
+  it('should leave negative numbers as numbers', () => {
+    expect(toCsv(['Change'], [[-5]])).toBe('Change\r\n-5\r\n');
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * A spreadsheet cell - empty for a value that doesn't apply
+ */
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Text a spreadsheet would run as a formula (OWASP CSV injection) - staff-entered names can start with these
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell when it holds a comma, quote or line break (RFC 4180)
+ * Text that looks like a formula is quoted behind a ' so it opens as text; numbers are left as they are
+ */
+function formatCell(value: CsvValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV text for a header row and its data rows, with CRLF line endings so spreadsheets open it as-is
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
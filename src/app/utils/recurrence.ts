@@ -0,0 +1,40 @@
+import { getDateId } from './clinic-time';
+
+/**
+ * Repeat a booking every N weeks, either a fixed number of times or until a date
+ */
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  count?: number;     // total occurrences including the first
+  untilDateId?: string; // last allowed date, "YYYY-MM-DD" (inclusive)
+}
+
+/**
+ * Upper bound on a single series, booked all or nothing in one transaction
+ * firestore.rules reads each occurrence's appointment and date plus the booking policy,
+ * and may only read 20 documents per transaction, so 9 is the most it can check
+ */
+export const MAX_SERIES_OCCURRENCES = 9;
+
+/**
+ * Date IDs for every occurrence of a series, starting with startDateId
+ * Date IDs are calendar dates ("YYYY-MM-DD"), so the maths steps whole days and ignores time zones
+ */
+export function getOccurrenceDateIds(startDateId: string, rule: RecurrenceRule): string[] {
+  const [year, month, day] = startDateId.split('-').map(Number);
+  const intervalDays = Math.max(1, rule.intervalWeeks) * 7;
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  const dateIds: string[] = [];
+  for (let i = 0; i < limit; i++) {
+    const occurrence = new Date(year, month - 1, day + i * intervalDays);
+    const dateId = getDateId(occurrence);
+
+    if (rule.untilDateId && dateId > rule.untilDateId) {
+      break;
+    }
+    dateIds.push(dateId);
+  }
+
+  return dateIds;
+}
@@ -0,0 +1,135 @@
+import type { Timestamp } from '@angular/fire/firestore';
+import type { DateDoc } from '../services/appointments.service';
+
+/**
+ * Seats for one date/time pair
+ */
+export interface SlotCapacity {
+  capacity: number;
+  booked: number;
+  startsAt?: Timestamp; // the slot's start instant in the clinic's zone (missing on older dates)
+  closed?: boolean;     // closed by staff - no new bookings, existing ones stay
+}
+
+/**
+ * Seats one appointment takes (delta = 1) or gives back (delta = -1) on a date
+ */
+export interface SeatChange {
+  timeIds: string[];
+  delta: 1 | -1;
+}
+
+/**
+ * Dates seeded before capacities existed only have availableTimeIds,
+ * which means every slot had exactly one seat
+ */
+export const DEFAULT_SLOT_CAPACITY = 1;
+
+/**
+ * Capacity and booked count for a slot, falling back to the single-seat model
+ * (listed in availableTimeIds = free seat, missing = taken)
+ */
+export function getSlotCapacity(dateDoc: DateDoc, timeId: string): SlotCapacity {
+  const slot = dateDoc.slots?.[timeId];
+  if (slot) {
+    return slot;
+  }
+
+  const isAvailable = dateDoc.availableTimeIds?.includes(timeId) ?? false;
+  return {
+    capacity: DEFAULT_SLOT_CAPACITY,
+    booked: isAvailable ? 0 : DEFAULT_SLOT_CAPACITY
+  };
+}
+
+export function getRemainingSeats(dateDoc: DateDoc, timeId: string): number {
+  const { capacity, booked, closed } = getSlotCapacity(dateDoc, timeId);
+  return closed ? 0 : Math.max(0, capacity - booked);
+}
+
+/**
+ * Slots that can still take a booking - what availableTimeIds should hold
+ */
+export function getOpenTimeIds(slots: { [timeId: string]: SlotCapacity }): string[] {
+  return Object.keys(slots).filter(timeId => !slots[timeId].closed && slots[timeId].booked < slots[timeId].capacity);
+}
+
+/**
+ * Seats left across every slot on a date (used for calendar badges)
+ */
+export function getTotalRemainingSeats(dateDoc: DateDoc): number {
+  const timeIds = new Set([
+    ...Object.keys(dateDoc.slots ?? {}),
+    ...(dateDoc.availableTimeIds ?? [])
+  ]);
+
+  let total = 0;
+  timeIds.forEach(timeId => total += getRemainingSeats(dateDoc, timeId));
+  return total;
+}
+
+/**
+ * Book (delta = 1) or release (delta = -1) seats and return the fields to write back
+ * availableTimeIds is kept as the index of slots that still have a free seat,
+ * so existing availability queries keep working
+ */
+export function adjustSeats(
+  dateDoc: DateDoc,
+  timeIds: string[],
+  delta: 1 | -1
+): Pick<DateDoc, 'slots' | 'availableTimeIds'> {
+  const slots: { [timeId: string]: SlotCapacity } = { ...(dateDoc.slots ?? {}) };
+  const available = new Set(dateDoc.availableTimeIds ?? []);
+
+  for (const timeId of timeIds) {
+    const { capacity, booked, closed } = getSlotCapacity({ ...dateDoc, slots }, timeId);
+    const nextBooked = Math.min(capacity, Math.max(0, booked + delta));
+    slots[timeId] = { ...slots[timeId], capacity, booked: nextBooked };
+
+    // A seat given back on a closed slot stays unavailable
+    if (nextBooked < capacity && !closed) {
+      available.add(timeId);
+    } else {
+      available.delete(timeId);
+    }
+  }
+
+  return { slots, availableTimeIds: Array.from(available) };
+}
+
+/**
+ * seatChanges entry written alongside adjustSeats - firestore.rules only lets an appointment be
+ * created or cancelled when its date records the matching change in the same transaction
+ */
+export function getSeatChange(appointmentId: string, timeIds: string[], delta: 1 | -1): { [appointmentId: string]: SeatChange } {
+  return { [appointmentId]: { timeIds, delta } };
+}
+
+/**
+ * Combine the same date across several providers' schedules (used for calendar badges)
+ * Seats are summed per timeId, so a time is listed as available if any provider has a seat
+ */
+export function mergeDateDocs(dateDocs: DateDoc[]): DateDoc {
+  const slots: { [timeId: string]: SlotCapacity } = {};
+
+  for (const dateDoc of dateDocs) {
+    const timeIds = new Set([
+      ...Object.keys(dateDoc.slots ?? {}),
+      ...(dateDoc.availableTimeIds ?? [])
+    ]);
+
+    timeIds.forEach(timeId => {
+      const { capacity, booked, closed } = getSlotCapacity(dateDoc, timeId);
+      const merged = slots[timeId] ?? { capacity: 0, booked: 0 };
+      // A closed slot adds no free seats
+      slots[timeId] = { capacity: merged.capacity + (closed ? booked : capacity), booked: merged.booked + booked };
+    });
+  }
+
+  const { providerId, ...first } = dateDocs[0];
+  return {
+    ...first,
+    slots,
+    availableTimeIds: getOpenTimeIds(slots)
+  };
+}
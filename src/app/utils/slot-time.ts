@@ -0,0 +1,49 @@
+import type { TimeDoc } from '../services/appointments.service';
+import { CLINIC_TIME_ZONE, getClinicInstant } from './clinic-time';
+
+/**
+ * Minutes since midnight for a stored 12-hour clock time (e.g. 1:30 PM -> 810)
+ */
+export function getMinutesOfDay(time: Pick<TimeDoc, 'hour' | 'minute' | 'period'>): number {
+  const hour24 = (time.hour % 12) + (time.period === 'PM' ? 12 : 0);
+  return hour24 * 60 + time.minute;
+}
+
+/**
+ * The instant a slot starts
+ * Date IDs are "YYYY-MM-DD" and times are 12-hour clock values, both in the clinic's time zone
+ */
+export function getSlotStart(
+  dateId: string,
+  time: Pick<TimeDoc, 'hour' | 'minute' | 'period'>,
+  timeZone: string = CLINIC_TIME_ZONE
+): Date {
+  return getClinicInstant(dateId, getMinutesOfDay(time), timeZone);
+}
+
+/**
+ * Parse a display time such as "1:30 PM" back into its clock values
+ */
+export function parseDisplayTime(time: string): Pick<TimeDoc, 'hour' | 'minute' | 'period'> {
+  const [clock, period] = time.split(' ');
+  const [hour, minute] = clock.split(':').map(Number);
+  return { hour, minute, period: period === 'PM' ? 'PM' : 'AM' };
+}
+
+/**
+ * Clock values and label for minutes since midnight (e.g. 810 -> 1:30 PM)
+ */
+export function getClockTime(minutesOfDay: number): Pick<TimeDoc, 'time' | 'hour' | 'minute' | 'period'> {
+  const hour24 = Math.floor(minutesOfDay / 60);
+  const minute = minutesOfDay % 60;
+  const period = hour24 < 12 ? 'AM' : 'PM';
+  const hour = hour24 % 12 === 0 ? 12 : hour24 % 12;
+  return { time: `${hour}:${minute.toString().padStart(2, '0')} ${period}`, hour, minute, period };
+}
+
+/**
+ * Time ID for a display time (e.g. "8:00 AM" -> "8-00_AM")
+ */
+export function createTimeId(time: string): string {
+  return time.replace(/:/g, '-').replace(/ /g, '_');
+}
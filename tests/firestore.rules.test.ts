@@ -0,0 +1,572 @@
+/**
+ * Firestore security rules tests - run against the local emulator
+ *
+ * To run: npm run test:rules
+ * (starts the Firestore emulator with firebase-tools and runs this file with node's test runner)
+ */
+
+/// <reference types="node" />
+
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  RulesTestContext,
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment
+} from '@firebase/rules-unit-testing';
+import {
+  Firestore,
+  Timestamp,
+  arrayUnion,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore';
+import type { DateDoc } from '../src/app/services/appointments.service';
+import { MAX_SERIES_OCCURRENCES, getOccurrenceDateIds } from '../src/app/utils/recurrence';
+import { adjustSeats, getSeatChange } from '../src/app/utils/slot-capacity';
+
+const DATE_ID = '2030-01-15';
+const NINE = '9-00_AM';
+const NINE_THIRTY = '9-30_AM';
+
+let testEnv: RulesTestEnvironment;
+
+// The test contexts hand out the compat Firestore, which the modular functions also accept
+function db(context: RulesTestContext): Firestore {
+  return context.firestore() as unknown as Firestore;
+}
+
+const patient = () => db(testEnv.authenticatedContext('alice'));
+const otherPatient = () => db(testEnv.authenticatedContext('bob'));
+const staff = () => db(testEnv.authenticatedContext('reception', { admin: true }));
+const signedOut = () => db(testEnv.unauthenticatedContext());
+
+/**
+ * Nine o'clock has two seats, half past nine one
+ */
+function freshDate(): DateDoc {
+  return {
+    dateId: DATE_ID,
+    date: DATE_ID,
+    displayDate: 'Tuesday, January 15, 2030',
+    availableTimeIds: [NINE, NINE_THIRTY],
+    slots: {
+      [NINE]: { capacity: 2, booked: 0 },
+      [NINE_THIRTY]: { capacity: 1, booked: 0 }
+    },
+    createdAt: Timestamp.now()
+  };
+}
+
+async function readDate(): Promise<DateDoc> {
+  let date: DateDoc | undefined;
+  await testEnv.withSecurityRulesDisabled(async context => {
+    date = (await getDoc(doc(db(context), 'dates', DATE_ID))).data() as DateDoc;
+  });
+  return date!;
+}
+
+function newAppointment(appointmentId: string, userId: string, timeId: string, actorId = userId) {
+  return {
+    appointmentId,
+    dateId: DATE_ID,
+    timeId,
+    timeIds: [timeId],
+    userId,
+    bookedBy: actorId,
+    date: DATE_ID,
+    time: timeId === NINE ? '9:00 AM' : '9:30 AM',
+    status: 'confirmed',
+    statusHistory: [{ status: 'confirmed', changedAt: Timestamp.now(), changedBy: actorId }],
+    createdAt: serverTimestamp(),
+    startsAt: Timestamp.fromDate(new Date('2030-01-15T09:00:00Z'))
+  };
+}
+
+/**
+ * Book the way AppointmentsService does - seats and appointment in one batch
+ */
+async function book(firestore: Firestore, appointmentId: string, userId: string, timeId: string) {
+  const date = await readDate();
+  const batch = writeBatch(firestore);
+  batch.update(doc(firestore, 'dates', DATE_ID), {
+    ...adjustSeats(date, [timeId], 1),
+    seatChanges: getSeatChange(appointmentId, [timeId], 1)
+  });
+  batch.set(doc(firestore, 'appointments', appointmentId), newAppointment(appointmentId, userId, timeId, userId));
+  return batch.commit();
+}
+
+/**
+ * The audit event AppointmentsService writes with a booking
+ */
+function bookedEvent(appointmentId: string, userId: string, timeId: string, actorId = userId) {
+  const { status, dateId, date, time } = newAppointment(appointmentId, userId, timeId, actorId);
+  return {
+    eventId: `${appointmentId}-booked`,
+    appointmentId,
+    userId,
+    actorId,
+    staffInitiated: actorId !== userId,
+    action: 'booked',
+    before: null,
+    after: { status, dateId, date, timeId, time },
+    createdAt: serverTimestamp()
+  };
+}
+
+function cancellation(userId: string, cancelledBy: 'patient' | 'staff' = 'patient') {
+  return {
+    status: 'cancelled',
+    statusHistory: [
+      { status: 'confirmed', changedAt: Timestamp.now(), changedBy: 'alice' },
+      { status: 'cancelled', changedAt: Timestamp.now(), changedBy: userId }
+    ],
+    cancelledAt: serverTimestamp(),
+    cancelledBy
+  };
+}
+
+async function seedBooking(appointmentId: string, userId: string, timeId: string) {
+  await testEnv.withSecurityRulesDisabled(context => book(db(context), appointmentId, userId, timeId));
+}
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-clinic-rules',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const firestore = db(context);
+    await setDoc(doc(firestore, 'dates', DATE_ID), freshDate());
+    await setDoc(doc(firestore, 'times', NINE), { timeId: NINE, time: '9:00 AM', hour: 9, minute: 0, period: 'AM' });
+  });
+});
+
+describe('dates and times', () => {
+  it('are readable by signed-in users only', async () => {
+    await assertSucceeds(getDoc(doc(patient(), 'dates', DATE_ID)));
+    await assertSucceeds(getDoc(doc(patient(), 'times', NINE)));
+    await assertFails(getDoc(doc(signedOut(), 'dates', DATE_ID)));
+    await assertFails(getDoc(doc(signedOut(), 'times', NINE)));
+  });
+
+  it('are created and edited by staff only', async () => {
+    await assertFails(setDoc(doc(patient(), 'dates', '2030-01-16'), { ...freshDate(), dateId: '2030-01-16' }));
+    await assertFails(setDoc(doc(patient(), 'times', NINE_THIRTY), { timeId: NINE_THIRTY }));
+    await assertFails(updateDoc(doc(patient(), 'dates', DATE_ID), { [`slots.${NINE}.capacity`]: 5 }));
+
+    await assertSucceeds(setDoc(doc(staff(), 'dates', '2030-01-16'), { ...freshDate(), dateId: '2030-01-16' }));
+    await assertSucceeds(setDoc(doc(staff(), 'times', NINE_THIRTY), { timeId: NINE_THIRTY }));
+    await assertSucceeds(updateDoc(doc(staff(), 'dates', DATE_ID), { [`slots.${NINE}.capacity`]: 5 }));
+  });
+});
+
+describe('booking', () => {
+  it('succeeds when the seat is taken in the same batch', async () => {
+    await assertSucceeds(book(patient(), 'apt-1', 'alice', NINE));
+  });
+
+  it('fails when the appointment is written without taking a seat', async () => {
+    await assertFails(setDoc(doc(patient(), 'appointments', 'apt-1'), newAppointment('apt-1', 'alice', NINE)));
+  });
+
+  it('fails to take a seat without creating an appointment', async () => {
+    const date = await readDate();
+    await assertFails(updateDoc(doc(patient(), 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], 1),
+      seatChanges: getSeatChange('made-up', [NINE], 1)
+    }));
+  });
+
+  it('fails to take a seat for an appointment made earlier', async () => {
+    await seedBooking('apt-1', 'alice', NINE);
+    const date = await readDate();
+    await assertFails(updateDoc(doc(patient(), 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], 1),
+      seatChanges: getSeatChange('apt-1', [NINE], 1)
+    }));
+  });
+
+  it('fails when the date lists the appointment but the seat count does not move', async () => {
+    const batch = writeBatch(patient());
+    batch.update(doc(patient(), 'dates', DATE_ID), { seatChanges: getSeatChange('apt-1', [NINE], 1) });
+    batch.set(doc(patient(), 'appointments', 'apt-1'), newAppointment('apt-1', 'alice', NINE));
+    await assertFails(batch.commit());
+  });
+
+  it('fails when availableTimeIds no longer matches the slots', async () => {
+    const seats = adjustSeats(await readDate(), [NINE], 1);
+    const batch = writeBatch(patient());
+    batch.update(doc(patient(), 'dates', DATE_ID), {
+      ...seats,
+      availableTimeIds: [NINE_THIRTY],
+      seatChanges: getSeatChange('apt-1', [NINE], 1)
+    });
+    batch.set(doc(patient(), 'appointments', 'apt-1'), newAppointment('apt-1', 'alice', NINE));
+    await assertFails(batch.commit());
+  });
+
+  it('fails on a full slot', async () => {
+    await seedBooking('apt-1', 'bob', NINE_THIRTY);
+    await assertFails(book(patient(), 'apt-2', 'alice', NINE_THIRTY));
+  });
+
+  it('fails for another patient unless made by staff', async () => {
+    await assertFails(book(patient(), 'apt-1', 'bob', NINE));
+
+    const date = await readDate();
+    const batch = writeBatch(staff());
+    batch.update(doc(staff(), 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], 1),
+      seatChanges: getSeatChange('apt-1', [NINE], 1)
+    });
+    batch.set(doc(staff(), 'appointments', 'apt-1'), newAppointment('apt-1', 'bob', NINE, 'reception'));
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('booking a series', () => {
+  // The longest visit a date write can check, 9:00 AM to 1:00 PM
+  const visitTimeIds = ['9-00_AM', '9-30_AM', '10-00_AM', '10-30_AM', '11-00_AM', '11-30_AM', '12-00_PM', '12-30_PM'];
+  const dateIds = getOccurrenceDateIds(DATE_ID, { intervalWeeks: 1, count: MAX_SERIES_OCCURRENCES });
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      for (const dateId of dateIds) {
+        await setDoc(doc(db(context), 'dates', dateId), {
+          ...freshDate(),
+          dateId,
+          date: dateId,
+          availableTimeIds: visitTimeIds,
+          slots: Object.fromEntries(visitTimeIds.map(timeId => [timeId, { capacity: 1, booked: 0 }]))
+        });
+      }
+    });
+  });
+
+  it('succeeds at the longest series of the longest visits, in one batch with its events', async () => {
+    const firestore = patient();
+    const batch = writeBatch(firestore);
+    batch.set(doc(firestore, 'appointment_series', 'series-1'), { seriesId: 'series-1', userId: 'alice', dateIds });
+
+    for (const [i, dateId] of dateIds.entries()) {
+      const appointmentId = `apt-${i + 1}`;
+      const dateRef = doc(firestore, 'dates', dateId);
+      const date = (await getDoc(dateRef)).data() as DateDoc;
+      batch.update(dateRef, {
+        ...adjustSeats(date, visitTimeIds, 1),
+        seatChanges: getSeatChange(appointmentId, visitTimeIds, 1)
+      });
+
+      const appointment = { ...newAppointment(appointmentId, 'alice', NINE), dateId, date: dateId, timeIds: visitTimeIds, seriesId: 'series-1' };
+      batch.set(doc(firestore, 'appointments', appointmentId), appointment);
+      const event = bookedEvent(appointmentId, 'alice', NINE);
+      batch.set(doc(firestore, 'appointment_events', event.eventId), {
+        ...event,
+        after: { ...event.after, dateId, date: dateId, seriesId: 'series-1' }
+      });
+    }
+
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('cancelling', () => {
+  beforeEach(() => seedBooking('apt-1', 'alice', NINE));
+
+  async function cancel(firestore: Firestore, userId: string, cancelledBy: 'patient' | 'staff' = 'patient') {
+    const date = await readDate();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], -1),
+      seatChanges: getSeatChange('apt-1', [NINE], -1)
+    });
+    batch.update(doc(firestore, 'appointments', 'apt-1'), cancellation(userId, cancelledBy));
+    return batch.commit();
+  }
+
+  it('succeeds when the seat is given back in the same batch', async () => {
+    await assertSucceeds(cancel(patient(), 'alice'));
+  });
+
+  it('fails when the seat is not given back', async () => {
+    await assertFails(updateDoc(doc(patient(), 'appointments', 'apt-1'), cancellation('alice')));
+  });
+
+  it('fails to give a seat back without cancelling the appointment', async () => {
+    const date = await readDate();
+    await assertFails(updateDoc(doc(patient(), 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], -1),
+      seatChanges: getSeatChange('apt-1', [NINE], -1)
+    }));
+  });
+
+  it("is staff-only for another patient's appointment", async () => {
+    await assertFails(cancel(otherPatient(), 'bob'));
+    await assertFails(cancel(patient(), 'alice', 'staff'));
+    await assertSucceeds(cancel(staff(), 'reception', 'staff'));
+  });
+});
+
+describe('rescheduling on the same date', () => {
+  beforeEach(() => seedBooking('apt-1', 'alice', NINE));
+
+  it('gives back the old seat and takes the new one in a single date write', async () => {
+    const date = await readDate();
+    const released = { ...date, ...adjustSeats(date, [NINE], -1) };
+    const firestore = patient();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'dates', DATE_ID), {
+      ...adjustSeats(released, [NINE_THIRTY], 1),
+      seatChanges: { ...getSeatChange('apt-1', [NINE], -1), ...getSeatChange('apt-2', [NINE_THIRTY], 1) }
+    });
+    batch.set(doc(firestore, 'appointments', 'apt-2'), { ...newAppointment('apt-2', 'alice', NINE_THIRTY), rescheduledFrom: 'apt-1' });
+    batch.update(doc(firestore, 'appointments', 'apt-1'), { ...cancellation('alice'), rescheduledTo: 'apt-2' });
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('appointments', () => {
+  beforeEach(() => seedBooking('apt-1', 'alice', NINE));
+
+  it('are readable by their patient and staff only', async () => {
+    await assertSucceeds(getDoc(doc(patient(), 'appointments', 'apt-1')));
+    await assertSucceeds(getDoc(doc(staff(), 'appointments', 'apt-1')));
+    await assertFails(getDoc(doc(otherPatient(), 'appointments', 'apt-1')));
+  });
+
+  it('are never deleted', async () => {
+    await assertFails(deleteDoc(doc(patient(), 'appointments', 'apt-1')));
+    await assertFails(deleteDoc(doc(staff(), 'appointments', 'apt-1')));
+  });
+});
+
+describe('appointment events', () => {
+  async function bookWithEvent(firestore: Firestore, event: ReturnType<typeof bookedEvent>) {
+    const date = await readDate();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], 1),
+      seatChanges: getSeatChange('apt-1', [NINE], 1)
+    });
+    batch.set(doc(firestore, 'appointments', 'apt-1'), newAppointment('apt-1', 'alice', NINE));
+    batch.set(doc(firestore, 'appointment_events', event.eventId), event);
+    return batch.commit();
+  }
+
+  it('are created alongside the change they record', async () => {
+    await assertSucceeds(bookWithEvent(patient(), bookedEvent('apt-1', 'alice', NINE)));
+  });
+
+  it('fail when they disagree with the appointment as written', async () => {
+    const event = bookedEvent('apt-1', 'alice', NINE);
+    await assertFails(bookWithEvent(patient(), { ...event, after: { ...event.after, status: 'cancelled' } }));
+    await assertFails(bookWithEvent(patient(), { ...event, after: { ...event.after, timeId: NINE_THIRTY } }));
+  });
+
+  it('fail for an appointment that did not change in the same write', async () => {
+    await seedBooking('apt-1', 'alice', NINE);
+    const event = bookedEvent('apt-1', 'alice', NINE);
+    await assertFails(setDoc(doc(patient(), 'appointment_events', event.eventId), event));
+    await assertFails(setDoc(doc(staff(), 'appointment_events', 'forged'), {
+      ...bookedEvent('apt-1', 'alice', NINE, 'reception'),
+      eventId: 'forged',
+      action: 'status-changed',
+      before: event.after
+    }));
+  });
+
+  it("record a staff status change, which the patient can't claim", async () => {
+    await seedBooking('apt-1', 'alice', NINE);
+    const booked = bookedEvent('apt-1', 'alice', NINE).after;
+    const checkedIn = {
+      ...bookedEvent('apt-1', 'alice', NINE, 'reception'),
+      eventId: 'checked-in',
+      action: 'status-changed',
+      before: booked,
+      after: { ...booked, status: 'checked-in' }
+    };
+
+    const batch = writeBatch(staff());
+    batch.update(doc(staff(), 'appointments', 'apt-1'), {
+      status: 'checked-in',
+      statusHistory: arrayUnion({ status: 'checked-in', changedAt: Timestamp.now(), changedBy: 'reception' })
+    });
+    batch.set(doc(staff(), 'appointment_events', checkedIn.eventId), checkedIn);
+    await assertSucceeds(batch.commit());
+
+    await assertFails(setDoc(doc(patient(), 'appointment_events', 'claimed'), {
+      ...checkedIn,
+      eventId: 'claimed',
+      actorId: 'alice',
+      staffInitiated: false
+    }));
+  });
+});
+
+describe('patients added by staff', () => {
+  // Registered with the email reception used, typed with different case, and verified it
+  const carol = () => db(testEnv.authenticatedContext('carol', { email: 'Carol@Example.com', email_verified: true }));
+  // Registered with the same email but has not opened the verification link
+  const unverifiedCarol = () => db(testEnv.authenticatedContext('carol', { email: 'Carol@Example.com', email_verified: false }));
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await setDoc(doc(db(context), 'users', 'phone-patient'), {
+        uid: 'phone-patient',
+        email: 'carol@example.com',
+        firstName: 'Carol',
+        lastName: 'Jones',
+        role: 'patient',
+        createdBy: 'reception',
+        pendingEmail: 'carol@example.com',
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      });
+    });
+    await seedBooking('apt-1', 'phone-patient', NINE);
+  });
+
+  async function claim(firestore: Firestore) {
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'appointments', 'apt-1'), { userId: 'carol' });
+    batch.update(doc(firestore, 'users', 'phone-patient'), { pendingEmail: deleteField(), linkedTo: 'carol', updatedAt: Timestamp.now() });
+    return batch.commit();
+  }
+
+  it('are taken over, with their appointments, by the patient registering and verifying the same email', async () => {
+    await assertSucceeds(getDoc(doc(carol(), 'users', 'phone-patient')));
+    await assertSucceeds(getDoc(doc(carol(), 'appointments', 'apt-1')));
+    await assertSucceeds(claim(carol()));
+  });
+
+  it('are not taken over by anyone else', async () => {
+    await assertFails(getDoc(doc(patient(), 'users', 'phone-patient')));
+    await assertFails(getDoc(doc(patient(), 'appointments', 'apt-1')));
+    await assertFails(claim(patient()));
+  });
+
+  it('are not taken over before the email is verified', async () => {
+    await assertFails(getDoc(doc(unverifiedCarol(), 'users', 'phone-patient')));
+    await assertFails(getDoc(doc(unverifiedCarol(), 'appointments', 'apt-1')));
+    await assertFails(claim(unverifiedCarol()));
+  });
+});
+
+describe('waitlist', () => {
+  const offerFields = {
+    status: 'offered',
+    offeredTimeId: NINE,
+    offeredTime: '9:00 AM',
+    offerExpiresAt: Timestamp.fromMillis(Date.now() + 30 * 60 * 1000),
+    releasedAppointmentId: 'apt-1'
+  };
+
+  beforeEach(async () => {
+    await seedBooking('apt-1', 'alice', NINE);
+    await testEnv.withSecurityRulesDisabled(async context => {
+      const queueEntry = { entryId: 'entry-1', userId: 'bob', dateId: DATE_ID, timeId: NINE, providerId: null, createdAt: Timestamp.now() };
+      await setDoc(doc(db(context), 'waitlist', 'entry-1'), { ...queueEntry, date: DATE_ID, time: '9:00 AM', status: 'waiting' });
+      await setDoc(doc(db(context), 'waitlist_queue', 'entry-1'), queueEntry);
+    });
+  });
+
+  it('entries are readable by their patient and staff only', async () => {
+    await assertSucceeds(getDoc(doc(otherPatient(), 'waitlist', 'entry-1')));
+    await assertSucceeds(getDoc(doc(staff(), 'waitlist', 'entry-1')));
+    await assertFails(getDoc(doc(patient(), 'waitlist', 'entry-1')));
+    await assertSucceeds(getDoc(doc(patient(), 'waitlist_queue', 'entry-1')));
+  });
+
+  it('offers a seat given back in the same batch', async () => {
+    const date = await readDate();
+    const firestore = patient();
+    const batch = writeBatch(firestore);
+    batch.update(doc(firestore, 'dates', DATE_ID), {
+      ...adjustSeats(date, [NINE], -1),
+      seatChanges: getSeatChange('apt-1', [NINE], -1)
+    });
+    batch.update(doc(firestore, 'appointments', 'apt-1'), cancellation('alice'));
+    batch.update(doc(firestore, 'waitlist', 'entry-1'), offerFields);
+    batch.delete(doc(firestore, 'waitlist_queue', 'entry-1'));
+    await assertSucceeds(batch.commit());
+  });
+
+  it('fails to offer a seat nobody gave back', async () => {
+    await assertFails(updateDoc(doc(patient(), 'waitlist', 'entry-1'), offerFields));
+  });
+
+  it('keeps a waiting entry in the queue', async () => {
+    await assertFails(deleteDoc(doc(patient(), 'waitlist_queue', 'entry-1')));
+  });
+});
+
+describe('slot holds', () => {
+  const LOCK_ID = `${DATE_ID}_${NINE}`;
+  const inMinutes = (minutes: number) => Timestamp.fromMillis(Date.now() + minutes * 60 * 1000);
+
+  async function seedLock(holds: { [userId: string]: Timestamp }, expiresAt: Timestamp) {
+    await testEnv.withSecurityRulesDisabled(context => setDoc(doc(db(context), 'slot_locks', LOCK_ID), {
+      lockId: LOCK_ID,
+      dateId: DATE_ID,
+      timeId: NINE,
+      holds,
+      expiresAt,
+      updatedAt: Timestamp.now()
+    }));
+  }
+
+  it("let a patient add their own hold next to another patient's", async () => {
+    await seedLock({ bob: inMinutes(5) }, inMinutes(5));
+    await assertSucceeds(updateDoc(doc(patient(), 'slot_locks', LOCK_ID), {
+      'holds.alice': inMinutes(5),
+      expiresAt: inMinutes(5),
+      updatedAt: Timestamp.now()
+    }));
+  });
+
+  it("fail to move expiresAt before another patient's hold", async () => {
+    await seedLock({ bob: inMinutes(5) }, inMinutes(5));
+    await assertFails(updateDoc(doc(patient(), 'slot_locks', LOCK_ID), {
+      'holds.alice': inMinutes(1),
+      expiresAt: inMinutes(1),
+      updatedAt: Timestamp.now()
+    }));
+    await assertFails(updateDoc(doc(patient(), 'slot_locks', LOCK_ID), { expiresAt: Timestamp.fromMillis(Date.now() - 1000) }));
+  });
+
+  it('fail to change anything besides the holds', async () => {
+    await seedLock({ bob: inMinutes(5) }, inMinutes(5));
+    await assertFails(updateDoc(doc(patient(), 'slot_locks', LOCK_ID), { timeId: NINE_THIRTY }));
+  });
+
+  it('fail to be deleted while a hold is live', async () => {
+    await seedLock({ bob: inMinutes(5) }, inMinutes(5));
+    await assertFails(deleteDoc(doc(patient(), 'slot_locks', LOCK_ID)));
+  });
+
+  it('can be deleted once every hold has expired or been released', async () => {
+    await seedLock({ bob: inMinutes(-1) }, inMinutes(-1));
+    await assertSucceeds(deleteDoc(doc(patient(), 'slot_locks', LOCK_ID)));
+
+    await seedLock({}, inMinutes(5));
+    await assertSucceeds(deleteDoc(doc(patient(), 'slot_locks', LOCK_ID)));
+  });
+});